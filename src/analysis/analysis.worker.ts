@@ -0,0 +1,100 @@
+import { deskewImage } from './deskew';
+import { analyzeImage, detectedGeometry, GridGeometry, RasterImage, sampleGrid, SamplingOptions } from './gridDetection';
+import { compareReconstruction, refineGrid } from './quality';
+import { computeSpectrum2D } from './spectrum2d';
+import { compareWarpedReconstruction, detectWarpedGrid, GridMode, sampleWarpedGrid } from './warpedGrid';
+import { AnalysisWorkerRequest, AnalysisWorkerResponse } from './workerProtocol';
+
+// Runs the grid detection pipeline off the main thread. Work is synchronous,
+// so the page cancels a running request by terminating the worker.
+
+const ctx = self as unknown as Worker;
+
+let currentImage: RasterImage | null = null;
+
+const respond = (message: AnalysisWorkerResponse) => {
+  ctx.postMessage(message);
+};
+
+// Sample a grid and score the reconstruction. In 'warped' mode the cell
+// boundaries are first moved onto the edges around the given grid.
+const sampleInMode = (image: RasterImage, geometry: GridGeometry, options: SamplingOptions, gridMode: GridMode) => {
+  if (gridMode === 'warped') {
+    const warpedGrid = detectWarpedGrid(image, geometry);
+    const samples = sampleWarpedGrid(image, warpedGrid, options);
+    return { samples, comparison: compareWarpedReconstruction(image, samples, warpedGrid), warpedGrid };
+  }
+  
+  const { strideX, strideY, offsetX, offsetY } = geometry;
+  const samples = sampleGrid(image, strideX, strideY, offsetX, offsetY, options);
+  return { samples, comparison: compareReconstruction(image, samples, geometry), warpedGrid: null };
+};
+
+ctx.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  
+  if (request.type === 'setImage') {
+    currentImage = {
+      width: request.width,
+      height: request.height,
+      data: new Uint8ClampedArray(request.buffer)
+    };
+    return;
+  }
+  
+  if (!currentImage) {
+    respond({ type: 'error', requestId: request.requestId, message: 'No image has been sent to the analysis worker' });
+    return;
+  }
+  
+  try {
+    if (request.type === 'analyze') {
+      // Straighten first. The straightened image comes back in the result and
+      // the page sends it with 'setImage' before targeting it; until then
+      // other requests keep running on the image the page last sent.
+      const deskew = request.deskew ? deskewImage(currentImage) : null;
+      const image = deskew?.image ?? currentImage;
+      
+      const result = analyzeImage(image, request.options, (stage, fraction) => {
+        respond({ type: 'progress', requestId: request.requestId, stage, fraction });
+      });
+      
+      if (!result) {
+        respond({ type: 'error', requestId: request.requestId, message: 'No FFT results to process' });
+        return;
+      }
+      
+      const geometry = detectedGeometry(result);
+      if (!geometry) {
+        respond({ type: 'analysis', requestId: request.requestId, result, comparison: null, deskew, warpedGrid: null });
+        return;
+      }
+      
+      const { samples, comparison, warpedGrid } = request.gridMode === 'warped'
+        ? sampleInMode(image, geometry, request.options.sampling, request.gridMode)
+        : { samples: result.samples, comparison: compareReconstruction(image, result.samples, geometry), warpedGrid: null };
+      respond({ type: 'analysis', requestId: request.requestId, result: { ...result, samples }, comparison, deskew, warpedGrid });
+    } else if (request.type === 'refine') {
+      const refinement = refineGrid(currentImage, request.geometry, request.options, (fraction, best, mse) => {
+        respond({ type: 'refineProgress', requestId: request.requestId, fraction, best, mse });
+      }, request.edgeSignal);
+      
+      // The search scores uniform grids; a warped grid then grows from the best one
+      const { samples, comparison, warpedGrid } = sampleInMode(currentImage, refinement.geometry, request.options, request.gridMode);
+      respond({ type: 'refined', requestId: request.requestId, refinement, samples, comparison, warpedGrid });
+    } else if (request.type === 'spectrum2d') {
+      const spectrum = computeSpectrum2D(currentImage, request.options);
+      respond({ type: 'spectrum2d', requestId: request.requestId, spectrum });
+    } else {
+      const geometry = { strideX: request.strideX, strideY: request.strideY, offsetX: request.offsetX, offsetY: request.offsetY };
+      const { samples, comparison, warpedGrid } = sampleInMode(currentImage, geometry, request.options, request.gridMode);
+      respond({ type: 'samples', requestId: request.requestId, samples, comparison, warpedGrid });
+    }
+  } catch (error) {
+    respond({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -0,0 +1,30 @@
+// Perceptual color math. Differences in RGB overstate some changes and miss
+// others; CIE L*a*b* is close enough to uniform that a straight-line
+// distance there tracks how different two colors look.
+
+export type Lab = [number, number, number];
+
+// sRGB channel (0 - 255) to linear light (0.0 - 1.0)
+const linearize = (channel: number) => {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+};
+
+// Companding curve from CIE XYZ, relative to the white point, to Lab
+const labCurve = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116);
+
+// sRGB to CIE L*a*b* with the D65 white point
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const red = linearize(r);
+  const green = linearize(g);
+  const blue = linearize(b);
+
+  const x = labCurve((0.4124564 * red + 0.3575761 * green + 0.1804375 * blue) / 0.95047);
+  const y = labCurve(0.2126729 * red + 0.7151522 * green + 0.072175 * blue);
+  const z = labCurve((0.0193339 * red + 0.119192 * green + 0.9503041 * blue) / 1.08883);
+
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+};
+
+// CIE76 color difference. About 2.3 is just noticeable; 100 separates black from white.
+export const deltaE = (a: Lab, b: Lab): number => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
@@ -0,0 +1,148 @@
+import { RasterImage } from './gridDetection';
+import { computeSpectrum2D, DEFAULT_SPECTRUM_2D_OPTIONS, SpectrumPeak } from './spectrum2d';
+
+// Rotation and skew correction ahead of grid detection. A slightly rotated
+// screenshot smears the 1D peaks, so the lattice found in the 2D spectrum is
+// used to resample the image until the grid lines run along the axes.
+
+// How far the grid is off the image axes, in degrees. Positive angles turn
+// clockwise on screen.
+export interface SkewEstimate {
+  rotation: number; // Mean turn of the two grid directions
+  skew: number; // How far the grid directions are from perpendicular
+  // Maps an offset from the output's center to an offset from the source's
+  // center, as the row-major 2x2 matrix [a, b, c, d]
+  transform: [number, number, number, number];
+}
+
+export interface DeskewResult {
+  estimate: SkewEstimate;
+  image: RasterImage | null; // Null when the grid was already straight
+}
+
+// Corrections smaller than this are left alone rather than blurring the
+// image with a resample that gains nothing
+export const MIN_DESKEW_ANGLE = 0.1;
+
+type Vector = [number, number];
+
+const degrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Wave vector of a peak in cycles per pixel
+const waveVector = (peak: SpectrumPeak, width: number, height: number): Vector => [peak.u / width, peak.v / height];
+
+// Signed angle from the nearest image axis, between -45 and 45 degrees
+const axisDeviation = ([x, y]: Vector) => {
+  const angle = degrees(Math.atan2(y, x));
+  return angle - 90 * Math.round(angle / 90);
+};
+
+// Wave vector flipped to point right for the horizontal repeat and down for the vertical one
+const orient = ([x, y]: Vector, horizontal: boolean): Vector =>
+  (horizontal ? x : y) < 0 ? [-x, -y] : [x, y];
+
+// Transform taking the output's grid directions back to the measured ones.
+// With K the matrix of wave vectors and D their lengths on the diagonal, the
+// output is straight when the source is sampled at (D K^-1)^T times the
+// output position.
+const straighteningTransform = (kx: Vector, ky: Vector): SkewEstimate['transform'] => {
+  const determinant = kx[0] * ky[1] - ky[0] * kx[1];
+  const lengthX = Math.hypot(kx[0], kx[1]);
+  const lengthY = Math.hypot(ky[0], ky[1]);
+  return [
+    (lengthX * ky[1]) / determinant,
+    (-lengthY * kx[1]) / determinant,
+    (-lengthX * ky[0]) / determinant,
+    (lengthY * kx[0]) / determinant
+  ];
+};
+
+// Estimate how the grid is turned from the lattice of the 2D spectrum.
+// Returns null when the spectrum shows no lattice to go by.
+export const estimateSkew = (image: RasterImage): SkewEstimate | null => {
+  const spectrum = computeSpectrum2D(image, DEFAULT_SPECTRUM_2D_OPTIONS);
+  if (!spectrum || spectrum.lattice.length === 0) return null;
+
+  const vectors = spectrum.lattice.map(peak => waveVector(peak, spectrum.width, spectrum.height));
+  const isHorizontal = (vector: Vector) => Math.abs(vector[0]) >= Math.abs(vector[1]);
+  let kx = vectors.find(isHorizontal);
+  let ky = vectors.find(vector => !isHorizontal(vector));
+
+  // With a single grid direction, assume the other is perpendicular to it
+  if (!kx && ky) kx = [ky[1], -ky[0]];
+  if (!ky && kx) ky = [-kx[1], kx[0]];
+  if (!kx || !ky) return null;
+
+  kx = orient(kx, true);
+  ky = orient(ky, false);
+  const deviationX = axisDeviation(kx);
+  const deviationY = axisDeviation(ky);
+
+  return {
+    rotation: (deviationX + deviationY) / 2,
+    skew: deviationY - deviationX,
+    transform: straighteningTransform(kx, ky)
+  };
+};
+
+// Resample the image through the estimate's transform with bilinear
+// interpolation. The output is the largest centered rectangle of the
+// source's aspect ratio that stays inside the source, so no fill shows.
+export const applyDeskew = (image: RasterImage, estimate: SkewEstimate): RasterImage => {
+  const [a, b, c, d] = estimate.transform;
+  const halfWidth = image.width / 2;
+  const halfHeight = image.height / 2;
+
+  // Scale the output down until all four corners land inside the source
+  let scale = 1;
+  for (const [cx, cy] of [[1, 1], [1, -1], [-1, 1], [-1, -1]]) {
+    const sx = Math.abs(a * cx * halfWidth + b * cy * halfHeight);
+    const sy = Math.abs(c * cx * halfWidth + d * cy * halfHeight);
+    if (sx > 0) scale = Math.min(scale, halfWidth / sx);
+    if (sy > 0) scale = Math.min(scale, halfHeight / sy);
+  }
+
+  const width = Math.max(1, Math.floor(image.width * scale));
+  const height = Math.max(1, Math.floor(image.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const dy = y + 0.5 - height / 2;
+    for (let x = 0; x < width; x++) {
+      const dx = x + 0.5 - width / 2;
+      // Source position in pixel-center coordinates, clamped to the edge pixels
+      const sx = Math.max(0, Math.min(image.width - 1, halfWidth + a * dx + b * dy - 0.5));
+      const sy = Math.max(0, Math.min(image.height - 1, halfHeight + c * dx + d * dy - 0.5));
+      const left = Math.floor(sx);
+      const top = Math.floor(sy);
+      const right = Math.min(image.width - 1, left + 1);
+      const bottom = Math.min(image.height - 1, top + 1);
+      const fx = sx - left;
+      const fy = sy - top;
+
+      const target = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const topValue = image.data[(top * image.width + left) * 4 + channel] * (1 - fx) +
+          image.data[(top * image.width + right) * 4 + channel] * fx;
+        const bottomValue = image.data[(bottom * image.width + left) * 4 + channel] * (1 - fx) +
+          image.data[(bottom * image.width + right) * 4 + channel] * fx;
+        data[target + channel] = Math.round(topValue * (1 - fy) + bottomValue * fy);
+      }
+    }
+  }
+
+  return { width, height, data };
+};
+
+// Estimate the skew and straighten the image if it's off by enough to matter
+export const deskewImage = (image: RasterImage): DeskewResult | null => {
+  const estimate = estimateSkew(image);
+  if (!estimate) return null;
+
+  // Largest turn of either grid direction
+  const deviation = Math.abs(estimate.rotation) + Math.abs(estimate.skew) / 2;
+  return {
+    estimate,
+    image: deviation >= MIN_DESKEW_ANGLE ? applyDeskew(image, estimate) : null
+  };
+};
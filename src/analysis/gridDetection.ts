@@ -0,0 +1,1444 @@
+import * as math from 'mathjs';
+import { deltaE, rgbToLab } from './color';
+import { DEFAULT_PREPROCESSING_OPTIONS, hasBlockPeak, PreprocessingOptions, preprocessImage } from './preprocessing';
+
+// Framework-free grid detection. Everything here works on plain RGBA buffers
+// so it can run on the main thread, in a Web Worker or under Node.
+
+// Row-major RGBA pixels, compatible with the browser's ImageData
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+// 'y' lines run down a column and measure the vertical pixel pitch,
+// 'x' lines run along a row and measure the horizontal pixel pitch
+export type Axis = 'x' | 'y';
+
+export interface FFTResult {
+  axis: Axis;
+  position: number; // Column index for 'y' lines, row index for 'x' lines
+  derivatives: number[];
+  fft: math.Complex[];
+  magnitudes: number[];
+}
+
+// How the dominant bin is refined to a fractional frequency
+export type PeakInterpolation = 'none' | 'parabolic' | 'gaussian';
+
+// How the pitch is picked: the tallest smoothed FFT peak, the frequency
+// whose harmonics are jointly strongest, the first repeat of the
+// autocorrelation, or whichever of those reconstructs the image best
+export type PitchDetectionMethod = 'peak' | 'harmonic-product' | 'autocorrelation' | 'auto';
+
+// A concrete detector, i.e. anything but 'auto'
+export type PitchDetector = Exclude<PitchDetectionMethod, 'auto'>;
+
+// What the plotted spectrum holds: FFT magnitudes, or the autocorrelation
+// resampled onto frequency bins
+export type SpectrumKind = 'fft' | 'autocorrelation';
+
+// How the combined spectrum is smoothed before the peak search
+export type SmoothingKernel = 'gaussian' | 'median' | 'none';
+
+export interface SmoothingOptions {
+  kernel: SmoothingKernel;
+  sigma: number; // Gaussian standard deviation, in frequency units
+  size: number; // Kernel or median window width, in frequency units
+}
+
+export interface PeakSearchOptions {
+  method: PitchDetectionMethod;
+  interpolation: PeakInterpolation;
+  zeroPadding: number; // Derivatives are padded to this many times their length before the FFT
+  smoothing: SmoothingOptions;
+  minPitch: number; // Smallest stride searched, in pixels
+  maxPitch: number | null; // Largest stride searched, in pixels, unlimited when null
+  lowFrequencyCutoff: number; // The FFT search skips DC and frequencies below this
+}
+
+// Fractional pixel pitch with an approximate confidence interval
+export interface StrideEstimate {
+  stride: number;
+  low: number;
+  high: number;
+}
+
+// One possible grid pitch along an axis, scored so that harmonics and
+// sub-harmonics of the true pitch rank below it
+export interface GridCandidate {
+  frequency: number; // Cycles per line, may be fractional
+  stride: number;
+  offset: number; // Grid phase at this pitch as a fraction of one cell (-0.5 - 0.5)
+  prominence: number; // Peak height above the spectrum median (0.0 - 1.0)
+  harmonicConsistency: number; // Harmonics present and no stronger sub-harmonic (0.0 - 1.0)
+  reconstructionError: number; // Pixel deviation from the cell centers along the lines (0.0 - 1.0)
+  score: number; // Combined confidence (0.0 - 1.0)
+}
+
+export interface AxisAnalysis {
+  results: FFTResult[];
+  combinedMagnitudes: number[];
+  smoothedMagnitudes: number[];
+  binsPerFrequency: number; // Spectrum bins per unit of frequency, > 1 when zero-padded
+  method: PitchDetector; // Detector that produced the pitch, resolved when 'auto' was requested
+  spectrum: SpectrumKind;
+  peakFrequency: number; // Cycles per line, may be fractional
+  strideEstimate: StrideEstimate | null;
+  confidence: number; // Combined score of the detected peak (0.0 - 1.0)
+  offset: number; // Grid phase as a fraction of one cell (-0.5 - 0.5)
+  candidates: GridCandidate[]; // Best alternatives first, including the detected peak
+  blockPeak: boolean; // The spectrum peaks at the 8-pixel JPEG block period and the stride doesn't explain it
+}
+
+export interface PixelSample {
+  x: number;
+  y: number;
+  gridX: number; // Column of the grid cell this sample was taken from
+  gridY: number; // Row of the grid cell this sample was taken from
+  color: [number, number, number, number]; // RGBA
+  agreement: number; // Fraction of the cell's inner pixels that match the color (0.0 - 1.0)
+}
+
+// Stride and offset of a sampled grid along both axes
+export interface GridGeometry {
+  strideX: number;
+  strideY: number;
+  offsetX: number; // Fraction of a cell (-0.5 - 0.5)
+  offsetY: number;
+}
+
+export interface CellColorCount {
+  color: [number, number, number, number]; // RGBA
+  count: number; // Pixels of this color in the whole cell
+  innerCount: number; // Pixels of this color inside the margin, the ones aggregation reads
+}
+
+// Pixel-level view of one grid cell, for inspecting a sampled color
+export interface CellBreakdown {
+  gridX: number;
+  gridY: number;
+  bounds: [number, number, number, number]; // Left, top, right, bottom; right and bottom exclusive
+  innerBounds: [number, number, number, number];
+  colors: CellColorCount[]; // Most frequent first
+}
+
+// How the pixels of one grid cell are combined into its output color: the
+// single center pixel, the most frequent color, the per-channel median, or
+// the mean of the cell's inner region
+export type CellAggregation = 'center' | 'mode' | 'median' | 'trimmed-mean';
+
+export interface SamplingOptions {
+  aggregation: CellAggregation;
+  margin: number; // Fraction of the cell ignored along each edge (0.0 - 0.45)
+}
+
+// Which lines are fed to the FFT: seeded random picks, evenly spaced lines,
+// every line, or random picks weighted towards lines with visible detail
+export type LineSamplingStrategy = 'random' | 'even' | 'all' | 'content';
+
+export interface LineSamplingOptions {
+  strategy: LineSamplingStrategy;
+  lineCount: number; // Lines per axis, ignored by 'all'
+  seed: number; // Seeds the 'random' and 'content' strategies
+}
+
+// How neighbouring pixels are compared to find the grid's edges: the change
+// in mean brightness, the largest or summed change of the red, green and blue
+// channels, the perceptual difference in Lab (ΔE), or the change in opacity.
+// Brightness misses edges between colors of similar lightness, such as red
+// against green.
+export type EdgeSignal = 'luminance' | 'channel-max' | 'channel-sum' | 'lab' | 'alpha';
+
+export interface AnalysisOptions {
+  peakSearch: PeakSearchOptions;
+  lineSampling: LineSamplingOptions;
+  sampling: SamplingOptions;
+  edgeSignal: EdgeSignal;
+  preprocessing: PreprocessingOptions;
+}
+
+export type AnalysisStage = 'columns' | 'rows' | 'sampling';
+
+// Called as lines are processed; fraction covers the whole analysis (0.0 - 1.0)
+export type AnalysisProgressCallback = (stage: AnalysisStage, fraction: number) => void;
+
+export interface ImageAnalysisResult {
+  options: AnalysisOptions; // Settings the result was produced with, for reproducing it
+  columns: number[];
+  rows: number[];
+  columnAnalysis: AxisAnalysis;
+  rowAnalysis: AxisAnalysis;
+  samples: PixelSample[];
+}
+
+export const DEFAULT_SMOOTHING_OPTIONS: SmoothingOptions = {
+  kernel: 'gaussian',
+  sigma: 2,
+  size: 7
+};
+
+export const DEFAULT_PEAK_SEARCH_OPTIONS: PeakSearchOptions = {
+  method: 'peak',
+  interpolation: 'parabolic',
+  zeroPadding: 1,
+  smoothing: DEFAULT_SMOOTHING_OPTIONS,
+  minPitch: 2,
+  maxPitch: null,
+  lowFrequencyCutoff: 5
+};
+
+// Limits on the peak search settings. The controls and stored settings are
+// checked against these.
+export const PEAK_SEARCH_LIMITS = {
+  zeroPaddings: [1, 2, 4, 8],
+  minSigma: 0, // Exclusive
+  minKernelSize: 1,
+  minPitch: 2, // Pixels
+  minLowFrequencyCutoff: 1
+};
+
+// A pitch picked by one detector along with the spectrum it was picked from
+interface PitchDetection {
+  method: PitchDetector;
+  spectrum: SpectrumKind;
+  magnitudes: number[];
+  smoothedMagnitudes: number[];
+  startIndex: number; // First bin searched
+  endIndex: number; // Bin after the last one searched
+  peakBin: number; // 0 when nothing was found
+  peakFrequency: number;
+}
+
+// Number of ranked candidates returned per axis
+export const MAX_GRID_CANDIDATES = 5;
+
+// Harmonics multiplied together by the harmonic product spectrum
+export const HPS_HARMONICS = 3;
+
+export const DEFAULT_LINE_SAMPLING_OPTIONS: LineSamplingOptions = {
+  strategy: 'random',
+  lineCount: 30,
+  seed: 1
+};
+
+export const DEFAULT_SAMPLING_OPTIONS: SamplingOptions = {
+  aggregation: 'center',
+  margin: 0.25
+};
+
+// Largest per-channel difference at which a pixel still agrees with its cell's color
+export const AGREEMENT_TOLERANCE = 16;
+
+export const DEFAULT_EDGE_SIGNAL: EdgeSignal = 'luminance';
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  peakSearch: DEFAULT_PEAK_SEARCH_OPTIONS,
+  lineSampling: DEFAULT_LINE_SAMPLING_OPTIONS,
+  sampling: DEFAULT_SAMPLING_OPTIONS,
+  edgeSignal: DEFAULT_EDGE_SIGNAL,
+  preprocessing: DEFAULT_PREPROCESSING_OPTIONS
+};
+
+// Small, fast seeded PRNG (mulberry32) returning values in [0, 1), so the
+// same seed always samples the same lines
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Grayscale values along one column ('y') or row ('x')
+export const lineGrayscale = (image: RasterImage, axis: Axis, position: number): number[] => {
+  const { width, height, data } = image;
+  // Columns are scanned top-to-bottom, rows left-to-right
+  const lineLength = axis === 'y' ? height : width;
+  const lineData: number[] = [];
+  
+  for (let i = 0; i < lineLength; i++) {
+    const index = axis === 'y'
+      ? (i * width + position) * 4
+      : (position * width + i) * 4;
+    // Use grayscale value (average of RGB)
+    const gray = (data[index] + data[index + 1] + data[index + 2]) / 3;
+    lineData.push(gray);
+  }
+  
+  return lineData;
+};
+
+// Difference between two pixels, given by their data indices, for the
+// per-channel edge signals
+const channelDifference = (data: RasterImage['data'], a: number, b: number, signal: EdgeSignal): number => {
+  if (signal === 'alpha') {
+    return Math.abs(data[a + 3] - data[b + 3]);
+  }
+  
+  const red = Math.abs(data[a] - data[b]);
+  const green = Math.abs(data[a + 1] - data[b + 1]);
+  const blue = Math.abs(data[a + 2] - data[b + 2]);
+  return signal === 'channel-max' ? Math.max(red, green, blue) : red + green + blue;
+};
+
+// Absolute differences between neighbouring pixels along one line, compared
+// by the given edge signal
+export const lineDerivatives = (
+  image: RasterImage,
+  axis: Axis,
+  position: number,
+  signal: EdgeSignal = DEFAULT_EDGE_SIGNAL
+): number[] => {
+  const derivatives: number[] = [];
+  
+  if (signal === 'luminance') {
+    const lineData = lineGrayscale(image, axis, position);
+    
+    // Calculate the derivative manually (since mathjs doesn't have a diff function)
+    for (let i = 1; i < lineData.length; i++) {
+      derivatives.push(Math.abs(lineData[i] - lineData[i - 1]));
+    }
+    
+    return derivatives;
+  }
+  
+  const { width, height, data } = image;
+  const lineLength = axis === 'y' ? height : width;
+  const indexAt = (i: number) => (axis === 'y' ? i * width + position : position * width + i) * 4;
+  
+  if (signal === 'lab') {
+    // Convert each pixel once and difference the neighbours
+    let previous = rgbToLab(data[indexAt(0)], data[indexAt(0) + 1], data[indexAt(0) + 2]);
+    for (let i = 1; i < lineLength; i++) {
+      const index = indexAt(i);
+      const current = rgbToLab(data[index], data[index + 1], data[index + 2]);
+      derivatives.push(deltaE(previous, current));
+      previous = current;
+    }
+    return derivatives;
+  }
+  
+  for (let i = 1; i < lineLength; i++) {
+    derivatives.push(channelDifference(data, indexAt(i - 1), indexAt(i), signal));
+  }
+  
+  return derivatives;
+};
+
+// Pixel values along one line as the edge signal sees them: gray, RGB, Lab
+// or alpha. Candidates are scored on these, so a grid drawn only in hue or
+// transparency isn't judged on a flat line.
+const lineFeatures = (image: RasterImage, axis: Axis, position: number, signal: EdgeSignal): number[][] => {
+  if (signal === 'luminance') {
+    return lineGrayscale(image, axis, position).map(value => [value]);
+  }
+  
+  const { width, height, data } = image;
+  const lineLength = axis === 'y' ? height : width;
+  const features: number[][] = [];
+  
+  for (let i = 0; i < lineLength; i++) {
+    const index = (axis === 'y' ? i * width + position : position * width + i) * 4;
+    if (signal === 'alpha') {
+      features.push([data[index + 3]]);
+    } else if (signal === 'lab') {
+      features.push(rgbToLab(data[index], data[index + 1], data[index + 2]));
+    } else {
+      features.push([data[index], data[index + 1], data[index + 2]]);
+    }
+  }
+  
+  return features;
+};
+
+// Difference between two line features, matching lineDerivatives
+const featureDistance = (a: number[], b: number[], signal: EdgeSignal): number => {
+  if (signal === 'lab') {
+    return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+  }
+  let total = 0;
+  let largest = 0;
+  for (let c = 0; c < a.length; c++) {
+    const difference = Math.abs(a[c] - b[c]);
+    total += difference;
+    largest = Math.max(largest, difference);
+  }
+  return signal === 'channel-max' ? largest : total;
+};
+
+// Pick up to `count` distinct random positions in [0, size)
+const pickRandomLines = (size: number, count: number, random: () => number): number[] => {
+  const lines: number[] = [];
+  const usedPositions = new Set<number>();
+  
+  while (lines.length < count && lines.length < size) {
+    const position = Math.floor(random() * size);
+    if (!usedPositions.has(position)) {
+      usedPositions.add(position);
+      lines.push(position);
+    }
+  }
+  
+  return lines;
+};
+
+// Pick up to `count` distinct positions at random, with probability
+// proportional to how much detail each line has. Flat lines (solid
+// background) are never picked.
+const pickContentWeightedLines = (
+  image: RasterImage,
+  axis: Axis,
+  count: number,
+  random: () => number,
+  signal: EdgeSignal
+): number[] => {
+  const size = axis === 'y' ? image.width : image.height;
+  const weights: number[] = [];
+  for (let position = 0; position < size; position++) {
+    weights.push(lineDerivatives(image, axis, position, signal).reduce((sum, value) => sum + value, 0));
+  }
+  
+  const lines: number[] = [];
+  let remainingWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  
+  while (lines.length < count && remainingWeight > 0) {
+    let target = random() * remainingWeight;
+    let position = 0;
+    while (position < size - 1 && (weights[position] === 0 || target >= weights[position])) {
+      target -= weights[position];
+      position++;
+    }
+    
+    lines.push(position);
+    remainingWeight -= weights[position];
+    weights[position] = 0;
+  }
+  
+  return lines;
+};
+
+// Choose which columns ('y') or rows ('x') to analyze
+export const selectLines = (
+  image: RasterImage,
+  axis: Axis,
+  options: LineSamplingOptions,
+  random: () => number,
+  signal: EdgeSignal = DEFAULT_EDGE_SIGNAL
+): number[] => {
+  const size = axis === 'y' ? image.width : image.height;
+  const count = Math.max(1, Math.min(size, Math.round(options.lineCount)));
+  
+  switch (options.strategy) {
+    case 'all':
+      return Array.from({ length: size }, (_, position) => position);
+    case 'even':
+      return Array.from({ length: count }, (_, i) => Math.floor((i + 0.5) * size / count));
+    case 'content': {
+      const lines = pickContentWeightedLines(image, axis, count, random, signal);
+      // A completely flat image has no detail to weight by
+      return lines.length > 0 ? lines : selectLines(image, axis, { ...options, strategy: 'even' }, random, signal);
+    }
+    case 'random':
+    default:
+      return pickRandomLines(size, count, random);
+  }
+};
+
+// Extract the given lines along one axis, calculate derivatives, perform FFT
+// and find the dominant frequency of the combined spectrum
+export const analyzeAxis = (
+  image: RasterImage,
+  axis: Axis,
+  lines: number[],
+  options: PeakSearchOptions,
+  onLineProcessed?: (processed: number) => void,
+  signal: EdgeSignal = DEFAULT_EDGE_SIGNAL
+): AxisAnalysis | null => {
+  // Columns are scanned top-to-bottom, rows left-to-right
+  const lineLength = axis === 'y' ? image.height : image.width;
+  const derivativeLength = lineLength - 1;
+  // Zero-padding interpolates the spectrum, so each frequency spans this many bins
+  const binsPerFrequency = Math.max(1, Math.round(options.zeroPadding));
+  
+  const results: FFTResult[] = [];
+  
+  for (const position of lines) {
+    const derivatives = lineDerivatives(image, axis, position, signal);
+    
+    const padded = binsPerFrequency > 1
+      ? derivatives.concat(Array(derivatives.length * (binsPerFrequency - 1)).fill(0))
+      : derivatives;
+    
+    // Perform FFT on the derivatives
+    // Use type assertion to handle the conversion
+    const fft = math.fft(padded as unknown as math.Complex[]);
+    
+    // Calculate magnitudes more efficiently
+    const magnitudes: number[] = [];
+    for (let i = 0; i < fft.length; i++) {
+      // Get the magnitude of the complex number (sqrt of real^2 + imag^2)
+      const complex = fft[i];
+      const magnitude = Math.sqrt(
+        Math.pow(complex.re, 2) + Math.pow(complex.im, 2)
+      );
+      magnitudes.push(magnitude);
+    }
+    
+    results.push({
+      axis,
+      position,
+      derivatives,
+      fft,
+      magnitudes
+    });
+    
+    onLineProcessed?.(results.length);
+  }
+  
+  // Sum the FFT magnitudes across all lines
+  const allMagnitudes = results.map(result => result.magnitudes);
+  
+  // Check if we have any results
+  if (allMagnitudes.length === 0) {
+    console.error("gridDetection: No FFT results to process", { axis });
+    return null;
+  }
+  
+  const magnitudeLengths = allMagnitudes.map(m => m.length);
+  if (Math.max(...magnitudeLengths) === 0) {
+    console.error("gridDetection: Invalid magnitude lengths", { axis, magnitudeLengths });
+    return null;
+  }
+  
+  const maxLength = Math.max(...magnitudeLengths);
+  
+  // Calculate maxFreq with a safety check
+  const maxFreq = Math.max(1, Math.min(maxLength, Math.floor(lineLength * binsPerFrequency / 2)));
+  
+  // Ensure maxFreq is a valid array length (positive integer within safe limits)
+  const safeMaxFreq = Math.min(maxFreq, 10000 * binsPerFrequency); // Limit to a reasonable size
+  
+  // Build a combined array summing across all FFT results
+  const combinedMagnitudes: number[] = Array(safeMaxFreq).fill(0);
+  for (let i = 0; i < safeMaxFreq; i++) {
+    for (const magnitudes of allMagnitudes) {
+      if (i < magnitudes.length) {
+        combinedMagnitudes[i] += magnitudes[i];
+      }
+    }
+  }
+  
+  const smoothedMagnitudes = smoothSpectrum(combinedMagnitudes, options.smoothing, binsPerFrequency);
+  
+  const detectors: PitchDetector[] = options.method === 'auto'
+    ? ['peak', 'harmonic-product', 'autocorrelation']
+    : [options.method];
+  const detections = detectors.map(method =>
+    detectPitch(method, results, combinedMagnitudes, smoothedMagnitudes, binsPerFrequency, options)
+  );
+  
+  // Score each detector's pick; auto mode keeps the one that reconstructs
+  // the analyzed lines best
+  const lineValues = results.map(result => lineFeatures(image, axis, result.position, signal));
+  let best: { detection: PitchDetection; detected: GridCandidate } | null = null;
+  for (const detection of detections) {
+    if (detection.peakBin === 0) continue;
+    const detected = evaluateCandidate(
+      detection,
+      binsPerFrequency,
+      results,
+      lineValues,
+      signal,
+      detection.peakBin,
+      detection.peakFrequency
+    );
+    if (!best || reconstructsBetter(detected, best.detected)) {
+      best = { detection, detected };
+    }
+  }
+  
+  if (!best) {
+    return {
+      results,
+      combinedMagnitudes: detections[0].magnitudes,
+      smoothedMagnitudes: detections[0].smoothedMagnitudes,
+      binsPerFrequency,
+      method: detections[0].method,
+      spectrum: detections[0].spectrum,
+      peakFrequency: 0,
+      strideEstimate: null,
+      confidence: 0,
+      offset: 0,
+      candidates: [],
+      blockPeak: hasBlockPeak(combinedMagnitudes, derivativeLength, binsPerFrequency, null)
+    };
+  }
+  
+  const { detection, detected } = best;
+  const { peakBin, peakFrequency } = detection;
+  
+  // Approximate the frequency uncertainty from the peak's half width, which
+  // narrows as more lines agree on it. Without interpolation the answer can
+  // still be off by up to half a bin.
+  const halfWidth = findHalfWidth(detection.smoothedMagnitudes, peakBin) / binsPerFrequency;
+  const resolutionLimit = options.interpolation === 'none' ? 0.5 / binsPerFrequency : 0;
+  const uncertainty = Math.max(halfWidth / Math.sqrt(lines.length), resolutionLimit);
+  
+  const stride = derivativeLength / peakFrequency;
+  const strideEstimate: StrideEstimate = {
+    stride,
+    low: derivativeLength / (peakFrequency + uncertainty),
+    high: peakFrequency - uncertainty > 0 ? derivativeLength / (peakFrequency - uncertainty) : Infinity
+  };
+  
+  // Score the detected peak alongside the other strong local maxima so a
+  // harmonic or sub-harmonic pick can be spotted and overridden
+  const alternatives = findLocalMaxima(detection.smoothedMagnitudes, detection.startIndex, detection.endIndex)
+    .filter(bin => bin !== peakBin)
+    .slice(0, 2 * MAX_GRID_CANDIDATES)
+    .map(bin => evaluateCandidate(
+      detection,
+      binsPerFrequency,
+      results,
+      lineValues,
+      signal,
+      bin,
+      interpolatePeak(detection.smoothedMagnitudes, bin, options.interpolation) / binsPerFrequency
+    ));
+  
+  const candidates = [detected, ...alternatives]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_GRID_CANDIDATES);
+  if (!candidates.includes(detected)) {
+    candidates[candidates.length - 1] = detected;
+  }
+  
+  return {
+    results,
+    combinedMagnitudes: detection.magnitudes,
+    smoothedMagnitudes: detection.smoothedMagnitudes,
+    binsPerFrequency,
+    method: detection.method,
+    spectrum: detection.spectrum,
+    peakFrequency,
+    strideEstimate,
+    confidence: detected.score,
+    offset: detected.offset,
+    candidates,
+    blockPeak: hasBlockPeak(combinedMagnitudes, derivativeLength, binsPerFrequency, stride)
+  };
+};
+
+// Pick a pitch with one detector. FFT-based detectors search the smoothed
+// spectrum between the low-frequency cutoff (skipping DC and the slow
+// brightness changes near it) and the configured pitch range.
+const detectPitch = (
+  method: PitchDetector,
+  results: FFTResult[],
+  combinedMagnitudes: number[],
+  smoothedMagnitudes: number[],
+  binsPerFrequency: number,
+  options: PeakSearchOptions
+): PitchDetection => {
+  if (method === 'autocorrelation') {
+    return detectAutocorrelationPitch(results, combinedMagnitudes.length, binsPerFrequency, options);
+  }
+  
+  const [startIndex, endIndex] = searchRange(options, results[0].derivatives.length, binsPerFrequency, combinedMagnitudes.length);
+  const peakBin = method === 'harmonic-product'
+    ? findHarmonicProductPeak(combinedMagnitudes, smoothedMagnitudes, startIndex, endIndex, binsPerFrequency)
+    : findTallestPeak(smoothedMagnitudes, startIndex, endIndex);
+  
+  return {
+    method,
+    spectrum: 'fft',
+    magnitudes: combinedMagnitudes,
+    smoothedMagnitudes,
+    startIndex,
+    endIndex,
+    peakBin,
+    peakFrequency: peakBin > 0 ? interpolatePeak(smoothedMagnitudes, peakBin, options.interpolation) / binsPerFrequency : 0
+  };
+};
+
+// Bins of the FFT spectrum the peak search covers, end exclusive. The
+// largest pitch sets the lowest frequency and the smallest pitch the highest.
+const searchRange = (
+  options: PeakSearchOptions,
+  derivativeLength: number,
+  binsPerFrequency: number,
+  spectrumLength: number
+): [number, number] => {
+  const lowestFrequency = Math.max(options.lowFrequencyCutoff, options.maxPitch ? derivativeLength / options.maxPitch : 0);
+  const highestFrequency = options.minPitch > 0 ? derivativeLength / options.minPitch : Infinity;
+  return [
+    Math.max(1, Math.ceil(lowestFrequency * binsPerFrequency)),
+    Math.min(spectrumLength, Math.floor(highestFrequency * binsPerFrequency) + 1)
+  ];
+};
+
+// Auto mode's comparison: lower reconstruction error wins, except that a
+// finer grid at a harmonic of the other always reconstructs slightly better,
+// so the coarser grid is kept unless it is clearly worse
+const reconstructsBetter = (candidate: GridCandidate, current: GridCandidate): boolean => {
+  const [finer, coarser] = candidate.stride < current.stride ? [candidate, current] : [current, candidate];
+  const ratio = coarser.stride / finer.stride;
+  const harmonic = Math.round(ratio);
+  const isHarmonic = harmonic >= 2 && Math.abs(ratio - harmonic) < 0.05 * harmonic;
+  
+  if (isHarmonic) {
+    const coarserWins = coarser.reconstructionError <= finer.reconstructionError + 0.05;
+    return coarserWins === (candidate === coarser);
+  }
+  
+  return candidate.reconstructionError < current.reconstructionError;
+};
+
+// Fraction of the tallest autocorrelation repeat the first accepted one must reach
+const AUTOCORRELATION_REPEAT_THRESHOLD = 0.4;
+
+// Mean-removed autocorrelation of the derivatives summed over all lines and
+// normalized so lag 0 is 1. The biased estimate (divided by the full length)
+// tapers with lag, so the first repeat of the grid is the tallest.
+export const combinedAutocorrelation = (results: FFTResult[], maxLag: number): number[] => {
+  const correlation: number[] = Array(maxLag + 1).fill(0);
+  
+  for (const { derivatives } of results) {
+    const mean = derivatives.reduce((sum, value) => sum + value, 0) / derivatives.length;
+    const centered = derivatives.map(value => value - mean);
+    
+    for (let lag = 0; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let n = 0; n + lag < centered.length; n++) {
+        sum += centered[n] * centered[n + lag];
+      }
+      correlation[lag] += sum / centered.length;
+    }
+  }
+  
+  const zeroLag = correlation[0];
+  return zeroLag > 0 ? correlation.map(value => value / zeroLag) : correlation;
+};
+
+// Find the grid period as the first strong repeat in the autocorrelation,
+// which works for periods of up to half the line where the FFT search
+// starts too high. The period is refined on later repeats, whose positions
+// pin it down more precisely. For plotting and candidate scoring the
+// autocorrelation is resampled onto the FFT's frequency bins
+// (frequency = line length / lag), clamped at zero.
+const detectAutocorrelationPitch = (
+  results: FFTResult[],
+  spectrumLength: number,
+  binsPerFrequency: number,
+  options: PeakSearchOptions
+): PitchDetection => {
+  const { interpolation } = options;
+  const derivativeLength = results[0].derivatives.length;
+  // At least two full periods are needed to see a repeat
+  const maxLag = Math.max(2, Math.floor(derivativeLength / 2));
+  const correlation = combinedAutocorrelation(results, maxLag);
+  
+  const magnitudes: number[] = Array(spectrumLength).fill(0);
+  for (let k = 1; k < spectrumLength; k++) {
+    const lag = derivativeLength * binsPerFrequency / k;
+    if (lag < 1 || lag > maxLag) continue;
+    const lower = Math.floor(lag);
+    const upper = Math.min(maxLag, lower + 1);
+    const fraction = lag - lower;
+    magnitudes[k] = Math.max(0, correlation[lower] * (1 - fraction) + correlation[upper] * fraction);
+  }
+  
+  // Only the pitch range limits the lags searched; the low-frequency cutoff
+  // guards the FFT against DC, which the mean-removed correlation doesn't have
+  const minLag = Math.max(2, Math.ceil(options.minPitch));
+  const maxSearchLag = options.maxPitch ? Math.min(maxLag, Math.floor(options.maxPitch)) : maxLag;
+  const startIndex = Math.min(spectrumLength - 1, Math.ceil(derivativeLength * binsPerFrequency / maxSearchLag));
+  const endIndex = Math.min(spectrumLength, Math.floor(derivativeLength * binsPerFrequency / minLag) + 1);
+  
+  // A fractional period smears each repeat over two lags, so a later repeat
+  // that happens to land on a whole lag can be taller than the first. Take
+  // the first repeat that reaches most of the tallest one.
+  const repeats: number[] = [];
+  for (let lag = minLag; lag < Math.min(maxLag, maxSearchLag + 1); lag++) {
+    if (correlation[lag] > 0 && correlation[lag] > correlation[lag - 1] && correlation[lag] >= correlation[lag + 1]) {
+      repeats.push(lag);
+    }
+  }
+  const tallest = Math.max(0, ...repeats.map(lag => correlation[lag]));
+  const bestLag = repeats.find(lag => correlation[lag] >= AUTOCORRELATION_REPEAT_THRESHOLD * tallest) ?? 0;
+  
+  if (bestLag === 0) {
+    return { method: 'autocorrelation', spectrum: 'autocorrelation', magnitudes, smoothedMagnitudes: magnitudes, startIndex, endIndex, peakBin: 0, peakFrequency: 0 };
+  }
+  
+  // Each repeat m sits at m·period; search next to the prediction and update
+  // the period from the furthest repeat found so far
+  let period = interpolation === 'none' ? bestLag : interpolatePeak(correlation, bestLag, interpolation);
+  for (let m = 2; Math.round(m * period) < maxLag; m++) {
+    const predicted = Math.round(m * period);
+    let lag = predicted;
+    for (let i = Math.max(1, predicted - 1); i <= Math.min(maxLag - 1, predicted + 1); i++) {
+      if (correlation[i] > correlation[lag]) lag = i;
+    }
+    if (correlation[lag] <= 0) break;
+    period = (interpolation === 'none' ? lag : interpolatePeak(correlation, lag, interpolation)) / m;
+  }
+  
+  const peakFrequency = derivativeLength / period;
+  const peakBin = Math.max(1, Math.min(spectrumLength - 1, Math.round(peakFrequency * binsPerFrequency)));
+  
+  return {
+    method: 'autocorrelation',
+    spectrum: 'autocorrelation',
+    magnitudes,
+    smoothedMagnitudes: magnitudes,
+    startIndex,
+    endIndex,
+    peakBin,
+    peakFrequency
+  };
+};
+
+// Bin of the largest value from startIndex up to endIndex, 0 if there is none
+const findTallestPeak = (magnitudes: number[], startIndex: number, endIndex: number = magnitudes.length): number => {
+  let maxMagnitude = 0;
+  let peakBin = 0;
+  
+  for (let i = startIndex; i < Math.min(endIndex, magnitudes.length); i++) {
+    if (magnitudes[i] > maxMagnitude) {
+      maxMagnitude = magnitudes[i];
+      peakBin = i;
+    }
+  }
+  
+  return peakBin;
+};
+
+// Geometric mean of the magnitudes at the first `harmonics` multiples of
+// each bin. A pixel grid's comb of peaks lines up only at the fundamental,
+// so this peaks there even when a harmonic is the tallest single peak.
+// Harmonics of a fractional peak drift off integer bins, so each one takes
+// the maximum over a window that widens with the harmonic number. Harmonics
+// beyond the spectrum are left out of the mean rather than counted as zero.
+export const harmonicProductSpectrum = (magnitudes: number[], harmonics: number = HPS_HARMONICS): number[] => {
+  const spectrum: number[] = Array(magnitudes.length).fill(0);
+  
+  for (let k = 1; k < magnitudes.length; k++) {
+    let logSum = 0;
+    let count = 0;
+    
+    for (let h = 1; h <= harmonics && h * k < magnitudes.length; h++) {
+      const radius = Math.floor(h / 2);
+      let value = 0;
+      for (let i = Math.max(0, h * k - radius); i <= Math.min(magnitudes.length - 1, h * k + radius); i++) {
+        value = Math.max(value, magnitudes[i]);
+      }
+      logSum += Math.log(Math.max(value, Number.EPSILON));
+      count++;
+    }
+    
+    spectrum[k] = Math.exp(logSum / count);
+  }
+  
+  return spectrum;
+};
+
+// Pick the fundamental with the harmonic product spectrum, then move to the
+// tallest smoothed bin next to it so interpolation refines a real peak
+const findHarmonicProductPeak = (
+  combinedMagnitudes: number[],
+  smoothedMagnitudes: number[],
+  startIndex: number,
+  endIndex: number,
+  binsPerFrequency: number
+): number => {
+  const spectrum = harmonicProductSpectrum(combinedMagnitudes);
+  const winner = findTallestPeak(spectrum, startIndex, endIndex);
+  if (winner === 0) return 0;
+  
+  // Near the top of the spectrum a harmonic has too few multiples left to be
+  // told apart from the fundamental. If f/d explains the spectrum almost as
+  // well, the winner is the d-th harmonic of a coarser grid.
+  let fundamental = winner;
+  for (let d = HPS_HARMONICS + 1; d >= 2; d--) {
+    const center = Math.round(winner / d);
+    let bin = 0;
+    for (let i = Math.max(startIndex, center - binsPerFrequency); i <= center + binsPerFrequency; i++) {
+      if (spectrum[i] > spectrum[bin]) bin = i;
+    }
+    if (bin > 0 && spectrum[bin] >= 0.8 * spectrum[winner]) {
+      fundamental = bin;
+      break;
+    }
+  }
+  
+  let peakBin = fundamental;
+  const low = Math.max(startIndex, fundamental - binsPerFrequency);
+  const high = Math.min(endIndex - 1, fundamental + binsPerFrequency);
+  for (let i = low; i <= high; i++) {
+    if (smoothedMagnitudes[i] > smoothedMagnitudes[peakBin]) peakBin = i;
+  }
+  
+  return peakBin;
+};
+
+// Bins in the searched range that are higher than both neighbours, strongest first
+const findLocalMaxima = (magnitudes: number[], startIndex: number, endIndex: number): number[] => {
+  const maxima: number[] = [];
+  for (let i = Math.max(1, startIndex); i < Math.min(endIndex, magnitudes.length - 1); i++) {
+    if (magnitudes[i] > magnitudes[i - 1] && magnitudes[i] >= magnitudes[i + 1]) {
+      maxima.push(i);
+    }
+  }
+  return maxima.sort((a, b) => magnitudes[b] - magnitudes[a]);
+};
+
+// Score one candidate pitch on three independent signals: how much its
+// peak stands out, whether the spectrum looks like it was generated by that
+// pitch, and how well one sample per cell reproduces the analyzed lines
+const evaluateCandidate = (
+  detection: PitchDetection,
+  binsPerFrequency: number,
+  results: FFTResult[],
+  lineValues: number[][][],
+  signal: EdgeSignal,
+  bin: number,
+  frequency: number
+): GridCandidate => {
+  const derivativeLength = results[0].derivatives.length;
+  const stride = derivativeLength / frequency;
+  const offset = estimateGridOffset(results, stride);
+  const { smoothedMagnitudes: magnitudes, startIndex, endIndex, spectrum } = detection;
+  const prominence = peakProminence(magnitudes, bin, startIndex, endIndex);
+  const harmonicConsistency = harmonicScore(magnitudes, spectrum, binsPerFrequency, startIndex, bin, frequency);
+  const reconstructionError = lineReconstructionError(lineValues, stride, offset, signal);
+  
+  return {
+    frequency,
+    stride,
+    offset,
+    prominence,
+    harmonicConsistency,
+    reconstructionError,
+    score: prominence * harmonicConsistency * (1 - reconstructionError)
+  };
+};
+
+// The derivative of a pixel grid is a spike train, whose spectrum has peaks
+// at every multiple of the pitch frequency. A true pitch therefore has
+// support at 2f and 3f, while a harmonic of it (half the true stride) also
+// has a strong peak at f/2 or f/3. The autocorrelation repeats at multiples
+// of the period instead, i.e. at f/2 and f/3, so the roles swap there.
+const harmonicScore = (
+  magnitudes: number[],
+  spectrum: SpectrumKind,
+  binsPerFrequency: number,
+  startIndex: number,
+  bin: number,
+  frequency: number
+): number => {
+  const sorted = magnitudes.slice(startIndex).sort((a, b) => a - b);
+  const median = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+  const height = magnitudes[bin] - median;
+  if (height <= 0) return 0;
+  
+  // Height at a frequency relative to the candidate's own peak
+  const relativeHeight = (f: number) => {
+    const index = Math.round(f * binsPerFrequency);
+    if (index < startIndex || index >= magnitudes.length) return null;
+    return Math.max(0, Math.min(1, (magnitudes[index] - median) / height));
+  };
+  
+  const repeat = (k: number) => spectrum === 'autocorrelation' ? frequency / k : frequency * k;
+  const conflict = (k: number) => spectrum === 'autocorrelation' ? frequency * k : frequency / k;
+  
+  const harmonics = [2, 3]
+    .map(k => relativeHeight(repeat(k)))
+    .filter((value): value is number => value !== null);
+  // Above Nyquist there is nothing to check, so don't penalize
+  const support = harmonics.length > 0
+    ? harmonics.reduce((sum, value) => sum + value, 0) / harmonics.length
+    : 1;
+  
+  const subharmonic = Math.max(0, ...[2, 3]
+    .map(k => relativeHeight(conflict(k)))
+    .filter((value): value is number => value !== null));
+  
+  return (0.5 + 0.5 * support) * (1 - subharmonic);
+};
+
+// Mean deviation of every pixel from the center pixel of its grid cell,
+// relative to its deviation from the line mean: 0 when the lines are
+// perfectly piecewise-constant on this grid, 1 when the grid explains nothing
+const lineReconstructionError = (
+  lineValues: number[][][],
+  stride: number,
+  offset: number,
+  signal: EdgeSignal
+): number => {
+  let error = 0;
+  let baseline = 0;
+  
+  for (const values of lineValues) {
+    const mean = values[0].map((_, c) => values.reduce((sum, value) => sum + value[c], 0) / values.length);
+    
+    for (let i = 0; i < values.length; i++) {
+      // Assign each pixel by its center so boundaries on pixel edges are stable
+      const cell = Math.floor((i + 0.5) / stride - offset);
+      const center = Math.min(values.length - 1, Math.max(0, Math.floor((cell + 0.5 + offset) * stride)));
+      error += featureDistance(values[i], values[center], signal);
+      baseline += featureDistance(values[i], mean, signal);
+    }
+  }
+  
+  return baseline > 0 ? Math.min(1, error / baseline) : 0;
+};
+
+// Refine an integer peak bin to a fractional position by fitting a parabola
+// through it and its neighbours, either on the raw magnitudes or on their
+// logarithm (exact for a Gaussian-shaped peak)
+export const interpolatePeak = (magnitudes: number[], peakBin: number, interpolation: PeakInterpolation): number => {
+  if (interpolation === 'none' || peakBin <= 0 || peakBin >= magnitudes.length - 1) {
+    return peakBin;
+  }
+  
+  const transform = interpolation === 'gaussian'
+    ? (value: number) => Math.log(Math.max(value, Number.EPSILON))
+    : (value: number) => value;
+  
+  const alpha = transform(magnitudes[peakBin - 1]);
+  const beta = transform(magnitudes[peakBin]);
+  const gamma = transform(magnitudes[peakBin + 1]);
+  const denominator = alpha - 2 * beta + gamma;
+  
+  if (denominator >= 0) return peakBin;
+  
+  const delta = 0.5 * (alpha - gamma) / denominator;
+  return peakBin + Math.max(-0.5, Math.min(0.5, delta));
+};
+
+// Fraction of the peak height that rises above the median of the searched
+// range: 0 for a flat spectrum, approaching 1 for a single sharp peak
+export const peakProminence = (
+  magnitudes: number[],
+  peakBin: number,
+  startIndex: number,
+  endIndex: number = magnitudes.length
+): number => {
+  const searched = magnitudes.slice(startIndex, endIndex).sort((a, b) => a - b);
+  const peak = magnitudes[peakBin];
+  
+  if (searched.length === 0 || peak <= 0) return 0;
+  
+  const median = searched[Math.floor(searched.length / 2)];
+  return Math.max(0, Math.min(1, (peak - median) / peak));
+};
+
+// Half width at half maximum of the peak, in bins
+const findHalfWidth = (magnitudes: number[], peakBin: number): number => {
+  const halfMaximum = magnitudes[peakBin] / 2;
+  
+  let left = peakBin;
+  while (left > 0 && magnitudes[left] > halfMaximum) left--;
+  
+  let right = peakBin;
+  while (right < magnitudes.length - 1 && magnitudes[right] > halfMaximum) right++;
+  
+  return (right - left) / 2;
+};
+
+// Estimate where the grid starts from the phase at the detected pitch. The
+// derivative spikes on every cell boundary, so the phasor summed over all
+// lines points at the boundary position within one period. The DFT is
+// evaluated at exactly 1/stride because the nearest FFT bin drifts out of
+// phase over long lines.
+export const estimateGridOffset = (results: FFTResult[], stride: number): number =>
+  estimateEdgeOffset(results.map(result => result.derivatives), stride);
+
+// Grid offset from the phase of any set of derivative lines at 1/stride
+export const estimateEdgeOffset = (lines: number[][], stride: number): number => {
+  if (stride <= 0 || lines.length === 0) return 0;
+  
+  let re = 0;
+  let im = 0;
+  for (const derivatives of lines) {
+    derivatives.forEach((value, n) => {
+      const angle = -2 * Math.PI * n / stride;
+      re += value * Math.cos(angle);
+      im += value * Math.sin(angle);
+    });
+  }
+  
+  if (re === 0 && im === 0) return 0;
+  
+  // A spike train starting at n0 has phase -2π·n0/stride
+  const firstEdge = -Math.atan2(im, re) / (2 * Math.PI) * stride;
+  
+  // Derivative sample n sits between pixels n and n + 1, so the cell starts at n + 1
+  const boundary = (((firstEdge + 1) % stride) + stride) % stride;
+  
+  // Boundaries just before a cell edge give a small negative offset rather
+  // than one just under 1, which would push the first cell off the image
+  const phase = boundary / stride > 0.5 ? boundary / stride - 1 : boundary / stride;
+  const offset = Math.round(phase * 100) / 100;
+  
+  return offset <= -0.5 ? 0.5 : offset;
+};
+
+// Smooth a spectrum with the configured kernel, scaled so it covers the
+// same frequency range regardless of padding
+export const smoothSpectrum = (data: number[], options: SmoothingOptions, binsPerFrequency: number): number[] => {
+  switch (options.kernel) {
+    case 'gaussian':
+      return applyGaussianSmoothing(data, options.sigma * binsPerFrequency, Math.round(options.size * binsPerFrequency));
+    case 'median':
+      return applyMedianSmoothing(data, Math.round(options.size * binsPerFrequency));
+    case 'none':
+      return data.slice();
+  }
+};
+
+// Replace each value with the median of the window around it, which
+// flattens isolated spikes without widening peaks the way a blur does
+export const applyMedianSmoothing = (data: number[], windowSize: number): number[] => {
+  const radius = Math.floor(Math.max(1, windowSize) / 2);
+  
+  return data.map((_, i) => {
+    const window = data.slice(Math.max(0, i - radius), Math.min(data.length, i + radius + 1)).sort((a, b) => a - b);
+    return window[Math.floor(window.length / 2)];
+  });
+};
+
+// Apply Gaussian smoothing to the FFT data
+export const applyGaussianSmoothing = (data: number[], sigma: number, kernelSize: number): number[] => {
+  // Ensure kernel size is odd
+  const size = kernelSize % 2 === 0 ? kernelSize + 1 : kernelSize;
+  const radius = Math.floor(size / 2);
+  
+  // Create Gaussian kernel
+  const kernel: number[] = [];
+  let sum = 0;
+  
+  for (let i = -radius; i <= radius; i++) {
+    const value = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel.push(value);
+    sum += value;
+  }
+  
+  // Normalize kernel
+  for (let i = 0; i < kernel.length; i++) {
+    kernel[i] /= sum;
+  }
+  
+  // Apply convolution
+  const result: number[] = [];
+  
+  for (let i = 0; i < data.length; i++) {
+    let value = 0;
+    
+    for (let j = -radius; j <= radius; j++) {
+      const index = i + j;
+      
+      if (index >= 0 && index < data.length) {
+        value += data[index] * kernel[j + radius];
+      }
+    }
+    
+    result.push(value);
+  }
+  
+  return result;
+};
+
+// Read one color per grid cell. The offsets shift the grid start by a
+// fraction of a cell along each axis. Each sample records the cell center
+// and how many pixels of the cell's inner region agree with its color.
+export const sampleGrid = (
+  image: RasterImage,
+  pixelSpacingX: number,
+  pixelSpacingY: number,
+  gridOffsetX: number,
+  gridOffsetY: number,
+  options: SamplingOptions = DEFAULT_SAMPLING_OPTIONS
+): PixelSample[] => {
+  const imgWidth = image.width;
+  const imgHeight = image.height;
+  
+  // Only count the cells that remain after the shifted grid start
+  const estimatedWidth = Math.round(imgWidth / pixelSpacingX - gridOffsetX);
+  const estimatedHeight = Math.round(imgHeight / pixelSpacingY - gridOffsetY);
+  
+  // Create samples array to store the sampled pixels
+  const samples: PixelSample[] = [];
+  
+  // Sample one color per detected grid cell
+  for (let gridY = 0; gridY < estimatedHeight; gridY++) {
+    for (let gridX = 0; gridX < estimatedWidth; gridX++) {
+      // Calculate the center of each grid cell in the original image
+      const centerX = Math.floor((gridX + 0.5 + gridOffsetX) * pixelSpacingX);
+      const centerY = Math.floor((gridY + 0.5 + gridOffsetY) * pixelSpacingY);
+      
+      // Ensure we're within bounds
+      if (centerX < imgWidth && centerY < imgHeight) {
+        const region = innerCellPixels(
+          image,
+          cellSpan(gridX, gridOffsetX, pixelSpacingX, options.margin, centerX, imgWidth),
+          cellSpan(gridY, gridOffsetY, pixelSpacingY, options.margin, centerY, imgHeight)
+        );
+        const centerIndex = (centerY * imgWidth + centerX) * 4;
+        const centerColor: [number, number, number, number] = [
+          image.data[centerIndex],
+          image.data[centerIndex + 1],
+          image.data[centerIndex + 2],
+          image.data[centerIndex + 3]
+        ];
+        
+        const color = aggregateCell(region, centerColor, options.aggregation);
+        
+        // Store the sample
+        samples.push({
+          x: centerX,
+          y: centerY,
+          gridX,
+          gridY,
+          color,
+          agreement: colorAgreement(region, color)
+        });
+      }
+    }
+  }
+  
+  return samples;
+};
+
+// Pixel range [start, end) of one cell along an axis, shrunk by `margin`
+// of the cell on both sides. Pixels belong to a cell by their centers; a
+// range that shrinks to nothing falls back to the center pixel.
+const cellSpan = (
+  cell: number,
+  offset: number,
+  spacing: number,
+  margin: number,
+  center: number,
+  size: number
+): [number, number] => {
+  const cellStart = (cell + offset) * spacing;
+  const start = Math.max(0, Math.ceil(cellStart + margin * spacing - 0.5));
+  const end = Math.min(size, Math.ceil(cellStart + (1 - margin) * spacing - 0.5));
+  return end > start ? [start, end] : [center, center + 1];
+};
+
+// Grid cell containing an image pixel, or null when it lies outside the grid
+export const cellAt = (
+  geometry: GridGeometry,
+  x: number,
+  y: number
+): { gridX: number; gridY: number } | null => {
+  const gridX = Math.floor((x + 0.5) / geometry.strideX - geometry.offsetX);
+  const gridY = Math.floor((y + 0.5) / geometry.strideY - geometry.offsetY);
+  return gridX >= 0 && gridY >= 0 ? { gridX, gridY } : null;
+};
+
+// Count the colors of one cell, both over the whole cell and over the inner
+// region that aggregation reads with the given margin
+export const describeCell = (
+  image: RasterImage,
+  geometry: GridGeometry,
+  gridX: number,
+  gridY: number,
+  margin: number
+): CellBreakdown | null => {
+  const centerX = Math.floor((gridX + 0.5 + geometry.offsetX) * geometry.strideX);
+  const centerY = Math.floor((gridY + 0.5 + geometry.offsetY) * geometry.strideY);
+  if (gridX < 0 || gridY < 0 || centerX >= image.width || centerY >= image.height) {
+    return null;
+  }
+  
+  const [left, right] = cellSpan(gridX, geometry.offsetX, geometry.strideX, 0, centerX, image.width);
+  const [top, bottom] = cellSpan(gridY, geometry.offsetY, geometry.strideY, 0, centerY, image.height);
+  const [innerLeft, innerRight] = cellSpan(gridX, geometry.offsetX, geometry.strideX, margin, centerX, image.width);
+  const [innerTop, innerBottom] = cellSpan(gridY, geometry.offsetY, geometry.strideY, margin, centerY, image.height);
+  
+  return describeCellRegion(image, gridX, gridY, [left, top, right, bottom], [innerLeft, innerTop, innerRight, innerBottom]);
+};
+
+// Count the colors inside a cell's bounds, and separately inside its inner bounds
+export const describeCellRegion = (
+  image: RasterImage,
+  gridX: number,
+  gridY: number,
+  [left, top, right, bottom]: [number, number, number, number],
+  [innerLeft, innerTop, innerRight, innerBottom]: [number, number, number, number]
+): CellBreakdown => {
+  const counts = new Map<string, CellColorCount>();
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const index = (y * image.width + x) * 4;
+      const color: [number, number, number, number] = [
+        image.data[index],
+        image.data[index + 1],
+        image.data[index + 2],
+        image.data[index + 3]
+      ];
+      const key = color.join(',');
+      const entry = counts.get(key) ?? { color, count: 0, innerCount: 0 };
+      entry.count++;
+      if (x >= innerLeft && x < innerRight && y >= innerTop && y < innerBottom) {
+        entry.innerCount++;
+      }
+      counts.set(key, entry);
+    }
+  }
+  
+  return {
+    gridX,
+    gridY,
+    bounds: [left, top, right, bottom],
+    innerBounds: [innerLeft, innerTop, innerRight, innerBottom],
+    colors: [...counts.values()].sort((a, b) => b.count - a.count)
+  };
+};
+
+// RGBA colors of every pixel in the given column and row ranges
+export const innerCellPixels = (
+  image: RasterImage,
+  [left, right]: [number, number],
+  [top, bottom]: [number, number]
+): [number, number, number, number][] => {
+  const pixels: [number, number, number, number][] = [];
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const index = (y * image.width + x) * 4;
+      pixels.push([image.data[index], image.data[index + 1], image.data[index + 2], image.data[index + 3]]);
+    }
+  }
+  return pixels;
+};
+
+// Combine a cell's pixels into one color
+export const aggregateCell = (
+  pixels: [number, number, number, number][],
+  centerColor: [number, number, number, number],
+  aggregation: CellAggregation
+): [number, number, number, number] => {
+  switch (aggregation) {
+    case 'mode': {
+      // Most frequent exact color; ties go to the color seen first
+      const counts = new Map<string, { color: [number, number, number, number]; count: number }>();
+      let best: { color: [number, number, number, number]; count: number } | null = null;
+      for (const pixel of pixels) {
+        const key = pixel.join(',');
+        const entry = counts.get(key) ?? { color: pixel, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+        if (!best || entry.count > best.count) best = entry;
+      }
+      return best ? best.color : centerColor;
+    }
+    case 'median': {
+      const channel = (c: number) => {
+        const values = pixels.map(pixel => pixel[c]).sort((a, b) => a - b);
+        return values[Math.floor(values.length / 2)];
+      };
+      return [channel(0), channel(1), channel(2), channel(3)];
+    }
+    case 'trimmed-mean': {
+      const channel = (c: number) =>
+        Math.round(pixels.reduce((sum, pixel) => sum + pixel[c], 0) / pixels.length);
+      return [channel(0), channel(1), channel(2), channel(3)];
+    }
+    case 'center':
+    default:
+      return centerColor;
+  }
+};
+
+// Fraction of pixels within AGREEMENT_TOLERANCE of the color on every channel
+export const colorAgreement = (
+  pixels: [number, number, number, number][],
+  color: [number, number, number, number]
+): number => {
+  if (pixels.length === 0) return 1;
+  const agreeing = pixels.filter(pixel =>
+    pixel.every((value, c) => Math.abs(value - color[c]) <= AGREEMENT_TOLERANCE)
+  ).length;
+  return agreeing / pixels.length;
+};
+
+// Stride and offset detected on both axes, or null if either axis found no grid
+export const detectedGeometry = (result: ImageAnalysisResult): GridGeometry | null => {
+  const { rowAnalysis, columnAnalysis } = result;
+  if (!rowAnalysis.strideEstimate || !columnAnalysis.strideEstimate) return null;
+  
+  return {
+    strideX: rowAnalysis.strideEstimate.stride,
+    strideY: columnAnalysis.strideEstimate.stride,
+    offsetX: rowAnalysis.offset,
+    offsetY: columnAnalysis.offset
+  };
+};
+
+// Run the full pipeline: pick lines on both axes, detect pitch and phase on
+// each, then sample one pixel per detected grid cell
+export const analyzeImage = (
+  image: RasterImage,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+  onProgress?: AnalysisProgressCallback
+): ImageAnalysisResult | null => {
+  // Columns measure the vertical pitch and rows the horizontal pitch. Both
+  // draw from one seeded sequence so the whole selection is reproducible.
+  const random = createSeededRandom(options.lineSampling.seed);
+  // Edges are found on the cleaned-up image; colors are still sampled from the original
+  const prepared = preprocessImage(image, options.preprocessing);
+  const columns = selectLines(prepared, 'y', options.lineSampling, random, options.edgeSignal);
+  const rows = selectLines(prepared, 'x', options.lineSampling, random, options.edgeSignal);
+  const totalLines = columns.length + rows.length;
+  
+  const columnAnalysis = analyzeAxis(
+    prepared,
+    'y',
+    columns,
+    options.peakSearch,
+    processed => onProgress?.('columns', processed / totalLines),
+    options.edgeSignal
+  );
+  const rowAnalysis = analyzeAxis(
+    prepared,
+    'x',
+    rows,
+    options.peakSearch,
+    processed => onProgress?.('rows', (columns.length + processed) / totalLines),
+    options.edgeSignal
+  );
+  
+  if (!columnAnalysis || !rowAnalysis) {
+    return null;
+  }
+  
+  onProgress?.('sampling', 1);
+  
+  const samples = rowAnalysis.strideEstimate && columnAnalysis.strideEstimate
+    ? sampleGrid(
+        image,
+        rowAnalysis.strideEstimate.stride,
+        columnAnalysis.strideEstimate.stride,
+        rowAnalysis.offset,
+        columnAnalysis.offset,
+        options.sampling
+      )
+    : [];
+  
+  return {
+    options,
+    columns,
+    rows,
+    columnAnalysis,
+    rowAnalysis,
+    samples
+  };
+};
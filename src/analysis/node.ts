@@ -0,0 +1,38 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { PNG } from 'pngjs';
+import { RasterImage } from './gridDetection';
+import { processImage, ProcessedImage, ProcessImageOptions } from './pipeline';
+
+// Node entry point: the same detection and reconstruction as the browser,
+// reading and writing PNG files through pngjs.
+
+export * from './gridDetection';
+export * from './reconstruction';
+export * from './pipeline';
+export * from './quality';
+export * from './palette';
+export * from './targetPalette';
+export * from './paletteFiles';
+export * from './deskew';
+export * from './warpedGrid';
+export * from './spectrum2d';
+export * from './preprocessing';
+export * from './color';
+
+export const readPng = (path: string): RasterImage => {
+  const png = PNG.sync.read(readFileSync(path));
+  return {
+    width: png.width,
+    height: png.height,
+    data: png.data
+  };
+};
+
+export const writePng = (path: string, image: RasterImage): void => {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  writeFileSync(path, PNG.sync.write(png));
+};
+
+export const processPngFile = (path: string, options: ProcessImageOptions = {}): ProcessedImage | null =>
+  processImage(readPng(path), options);
@@ -0,0 +1,219 @@
+import { deltaE, Lab, rgbToLab } from './color';
+import { RasterImage } from './gridDetection';
+
+// Palette reduction of a reconstructed sprite. Cells sampled across
+// antialiased or compressed edges come out as near-duplicates of the art's
+// real colors, so a sprite drawn with a dozen colors can reconstruct with
+// sixty. Each method groups the colors and repaints every group with its
+// most frequent member, which is almost always one of the intended colors.
+
+// 'kmeans' and 'median-cut' reduce to a target count; 'merge' folds every
+// color into a more frequent one within a ΔE threshold
+export type PaletteReductionMethod = 'none' | 'kmeans' | 'median-cut' | 'merge';
+
+export interface PaletteReductionOptions {
+  method: PaletteReductionMethod;
+  colorCount: number; // Target palette size for 'kmeans' and 'median-cut'
+  mergeThreshold: number; // Largest ΔE between merged colors, for 'merge'
+}
+
+export const DEFAULT_PALETTE_REDUCTION_OPTIONS: PaletteReductionOptions = {
+  method: 'none',
+  colorCount: 16,
+  mergeThreshold: 8
+};
+
+// Lloyd iterations for k-means; it usually settles well before this
+const KMEANS_MAX_ITERATIONS = 20;
+
+// One distinct opaque color and how many pixels use it
+export interface PaletteEntry {
+  rgb: [number, number, number];
+  lab: Lab;
+  count: number;
+}
+
+export const colorKey = (r: number, g: number, b: number) => (r << 16) | (g << 8) | b;
+
+// Distinct opaque colors, most frequent first
+export const collectColors = (image: RasterImage): PaletteEntry[] => {
+  const entries = new Map<number, PaletteEntry>();
+  const { data } = image;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const key = colorKey(data[i], data[i + 1], data[i + 2]);
+    const entry = entries.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      entries.set(key, {
+        rgb: [data[i], data[i + 1], data[i + 2]],
+        lab: rgbToLab(data[i], data[i + 1], data[i + 2]),
+        count: 1
+      });
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => b.count - a.count);
+};
+
+// Palette color closest to an entry, in Lab
+const nearest = (entry: PaletteEntry, palette: PaletteEntry[]): PaletteEntry => {
+  let best = palette[0];
+  let bestDistance = Infinity;
+  for (const color of palette) {
+    const distance = deltaE(entry.lab, color.lab);
+    if (distance < bestDistance) {
+      best = color;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Weighted k-means in Lab. Seeds are picked deterministically: the most
+// frequent color, then each time the color furthest from every seed so far,
+// weighted by how often it is used.
+const kMeansGroups = (entries: PaletteEntry[], count: number): PaletteEntry[][] => {
+  const centers: Lab[] = [entries[0].lab];
+  const seedDistance = entries.map(entry => deltaE(entry.lab, entries[0].lab));
+  while (centers.length < count) {
+    let next = 0;
+    let bestWeight = -1;
+    entries.forEach((entry, i) => {
+      const weight = entry.count * seedDistance[i] * seedDistance[i];
+      if (weight > bestWeight) {
+        next = i;
+        bestWeight = weight;
+      }
+    });
+    if (bestWeight <= 0) break;
+    centers.push(entries[next].lab);
+    entries.forEach((entry, i) => {
+      seedDistance[i] = Math.min(seedDistance[i], deltaE(entry.lab, entries[next].lab));
+    });
+  }
+
+  let assignment = new Array<number>(entries.length).fill(-1);
+  for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+    const next = entries.map(entry => {
+      let best = 0;
+      for (let c = 1; c < centers.length; c++) {
+        if (deltaE(entry.lab, centers[c]) < deltaE(entry.lab, centers[best])) best = c;
+      }
+      return best;
+    });
+    if (next.every((center, i) => center === assignment[i])) break;
+    assignment = next;
+
+    centers.forEach((_, c) => {
+      let weight = 0;
+      const sum: Lab = [0, 0, 0];
+      entries.forEach((entry, i) => {
+        if (assignment[i] !== c) return;
+        weight += entry.count;
+        for (let axis = 0; axis < 3; axis++) sum[axis] += entry.lab[axis] * entry.count;
+      });
+      if (weight > 0) centers[c] = [sum[0] / weight, sum[1] / weight, sum[2] / weight];
+    });
+  }
+
+  const groups: PaletteEntry[][] = centers.map(() => []);
+  entries.forEach((entry, i) => groups[assignment[i]].push(entry));
+  return groups;
+};
+
+// Median cut in RGB: keep splitting the box with the widest channel range at
+// its pixel-weighted median until there are `count` boxes
+const medianCutGroups = (entries: PaletteEntry[], count: number): PaletteEntry[][] => {
+  const channelRange = (box: PaletteEntry[], channel: number) => {
+    let low = 255;
+    let high = 0;
+    for (const entry of box) {
+      low = Math.min(low, entry.rgb[channel]);
+      high = Math.max(high, entry.rgb[channel]);
+    }
+    return high - low;
+  };
+  const widestChannel = (box: PaletteEntry[]) =>
+    [0, 1, 2].reduce((best, channel) => (channelRange(box, channel) > channelRange(box, best) ? channel : best), 0);
+
+  const boxes: PaletteEntry[][] = [entries];
+  while (boxes.length < count) {
+    let target = -1;
+    let widest = 0;
+    boxes.forEach((box, i) => {
+      const range = box.length > 1 ? channelRange(box, widestChannel(box)) : 0;
+      if (range > widest) {
+        target = i;
+        widest = range;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const channel = widestChannel(box);
+    const sorted = [...box].sort((a, b) => a.rgb[channel] - b.rgb[channel]);
+    const total = sorted.reduce((sum, entry) => sum + entry.count, 0);
+    let split = 1;
+    for (let seen = sorted[0].count; split < sorted.length - 1 && seen < total / 2; split++) {
+      seen += sorted[split].count;
+    }
+
+    // Keep each box in frequency order so its first entry is its representative
+    const byCount = (a: PaletteEntry, b: PaletteEntry) => b.count - a.count;
+    boxes.splice(target, 1, sorted.slice(0, split).sort(byCount), sorted.slice(split).sort(byCount));
+  }
+
+  return boxes;
+};
+
+// Greedy merge, most frequent colors first: a color within the threshold of
+// one already kept joins it, otherwise it is kept itself
+const mergeGroups = (entries: PaletteEntry[], threshold: number): PaletteEntry[][] => {
+  const groups: PaletteEntry[][] = [];
+  for (const entry of entries) {
+    const kept = groups.length > 0 ? nearest(entry, groups.map(group => group[0])) : null;
+    const group = kept && deltaE(entry.lab, kept.lab) <= threshold ? groups.find(candidate => candidate[0] === kept) : null;
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  }
+  return groups;
+};
+
+// Repaint the image with a reduced palette. Transparent pixels and alpha are
+// left as they are. Returns the image itself when there's nothing to reduce.
+export const reducePalette = (image: RasterImage, options: PaletteReductionOptions): RasterImage => {
+  if (options.method === 'none') return image;
+
+  const entries = collectColors(image);
+  const count = Math.max(1, Math.round(options.colorCount));
+  if (entries.length === 0 || (options.method !== 'merge' && entries.length <= count)) return image;
+
+  const groups = options.method === 'kmeans'
+    ? kMeansGroups(entries, count)
+    : options.method === 'median-cut'
+      ? medianCutGroups(entries, count)
+      : mergeGroups(entries, options.mergeThreshold);
+
+  // Every color maps to its group's most frequent member, which groups list first
+  const mapping = new Map<number, [number, number, number]>();
+  for (const group of groups) {
+    for (const entry of group) {
+      mapping.set(colorKey(...entry.rgb), group[0].rgb);
+    }
+  }
+
+  const data = new Uint8ClampedArray(image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const color = mapping.get(colorKey(data[i], data[i + 1], data[i + 2]));
+    if (color) data.set(color, i);
+  }
+
+  return { width: image.width, height: image.height, data };
+};
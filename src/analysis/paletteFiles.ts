@@ -0,0 +1,166 @@
+import { RasterImage } from './gridDetection';
+import { colorKey } from './palette';
+import { hexToRgb, TargetPalette } from './targetPalette';
+
+// Reading and writing palettes shared by other tools: GIMP .gpl, Paint.NET
+// .txt, JASC .pal (Paint Shop Pro, Aseprite), plain .hex lists as Lospec
+// serves them, and images whose colors are the palette. Malformed files
+// throw with a message fit to show.
+
+export type PaletteFileFormat = 'gpl' | 'paint-net' | 'jasc' | 'hex';
+
+export const PALETTE_FILE_EXTENSIONS: Record<PaletteFileFormat, string> = {
+  gpl: '.gpl',
+  'paint-net': '.txt',
+  jasc: '.pal',
+  hex: '.hex'
+};
+
+// More colors than this in an image means it isn't a palette
+const MAX_IMAGE_PALETTE_COLORS = 256;
+
+const customPalette = (name: string, colors: [number, number, number][]): TargetPalette => {
+  if (colors.length === 0) {
+    throw new Error(`"${name}" has no colors in it`);
+  }
+  return { id: `custom:${name}`, name, colors };
+};
+
+// "R G B" with channels 0 - 255, optionally followed by a name
+const parseRgbLine = (line: string): [number, number, number] | null => {
+  const parts = line.trim().split(/\s+/).slice(0, 3).map(Number);
+  if (parts.length < 3 || parts.some(channel => !Number.isInteger(channel) || channel < 0 || channel > 255)) {
+    return null;
+  }
+  return [parts[0], parts[1], parts[2]];
+};
+
+// GIMP palette: a "GIMP Palette" header, optional Name/Columns lines,
+// # comments, then one "R G B name" line per color
+const parseGpl = (text: string, fallbackName: string): TargetPalette => {
+  let name = fallbackName;
+  const colors: [number, number, number][] = [];
+
+  text.split(/\r?\n/).slice(1).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('Columns:')) return;
+    if (trimmed.startsWith('Name:')) {
+      name = trimmed.slice(5).trim() || name;
+      return;
+    }
+
+    const color = parseRgbLine(trimmed);
+    if (!color) throw new Error(`Line ${i + 2} of the GIMP palette isn't an "R G B" color: ${trimmed}`);
+    colors.push(color);
+  });
+
+  return customPalette(name, colors);
+};
+
+// JASC palette: "JASC-PAL", a version line, the color count, then "R G B" lines
+const parseJascPal = (text: string, name: string): TargetPalette => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const count = parseInt(lines[2], 10);
+  if (isNaN(count)) throw new Error('The JASC palette has no color count on its third line');
+
+  const colors = lines.slice(3, 3 + count).map((line, i) => {
+    const color = parseRgbLine(line);
+    if (!color) throw new Error(`Color ${i + 1} of the JASC palette isn't an "R G B" color: ${line}`);
+    return color;
+  });
+  if (colors.length < count) {
+    throw new Error(`The JASC palette promises ${count} colors but lists ${colors.length}`);
+  }
+
+  return customPalette(name, colors);
+};
+
+// One six-digit hex color per line, with or without '#'
+const parseHexList = (text: string, name: string): TargetPalette => {
+  const colors = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(line => {
+    const color = hexToRgb(line);
+    if (!color) throw new Error(`"${line}" isn't a hex color`);
+    return color;
+  });
+  return customPalette(name, colors);
+};
+
+// Paint.NET palette: ; comments, then one AARRGGBB color per line
+const parsePaintNet = (text: string, name: string): TargetPalette => {
+  const colors = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith(';')).map(line => {
+    if (!/^[0-9a-f]{8}$/i.test(line)) throw new Error(`"${line}" isn't a Paint.NET AARRGGBB color`);
+    return hexToRgb(line.slice(2)) as [number, number, number];
+  });
+  return customPalette(name, colors);
+};
+
+// Parse a palette file. The format comes from the header where there is
+// one rather than from the extension, which tools don't agree on.
+export const parsePaletteFile = (fileName: string, text: string): TargetPalette => {
+  const name = fileName.replace(/\.[^.]*$/, '') || fileName;
+  const header = text.trimStart().split(/\r?\n/)[0].trim();
+
+  if (header === 'GIMP Palette') return parseGpl(text.trimStart(), name);
+  if (header === 'JASC-PAL') return parseJascPal(text, name);
+  if (header.startsWith(';') || /^[0-9a-f]{8}$/i.test(header)) return parsePaintNet(text, name);
+  return parseHexList(text, name);
+};
+
+// A palette from the distinct opaque colors of an image, in reading order,
+// so a swatch strip keeps its order
+export const paletteFromImage = (image: RasterImage, name: string): TargetPalette => {
+  const { data } = image;
+  const seen = new Set<number>();
+  const colors: [number, number, number][] = [];
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const key = colorKey(data[i], data[i + 1], data[i + 2]);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    colors.push([data[i], data[i + 1], data[i + 2]]);
+    if (colors.length > MAX_IMAGE_PALETTE_COLORS) {
+      throw new Error(`"${name}" has more than ${MAX_IMAGE_PALETTE_COLORS} colors, so it can't be used as a palette`);
+    }
+  }
+
+  return customPalette(name, colors);
+};
+
+const toHex = ([r, g, b]: [number, number, number]) =>
+  [r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('');
+
+// Write a palette in one of the text formats. Paint.NET only reads the
+// first 96 colors of a file.
+export const formatPaletteFile = (palette: TargetPalette, format: PaletteFileFormat): string => {
+  const { name, colors } = palette;
+  switch (format) {
+    case 'gpl':
+      return [
+        'GIMP Palette',
+        `Name: ${name}`,
+        `Columns: ${Math.min(16, colors.length)}`,
+        '#',
+        ...colors.map(color => `${color.map(channel => String(channel).padStart(3)).join(' ')}\t#${toHex(color)}`)
+      ].join('\n') + '\n';
+    case 'paint-net':
+      return [
+        '; paint.net Palette File',
+        `; Palette Name: ${name}`,
+        `; Colors: ${colors.length}`,
+        ...colors.map(color => `FF${toHex(color).toUpperCase()}`)
+      ].join('\r\n') + '\r\n';
+    case 'jasc':
+      return ['JASC-PAL', '0100', String(colors.length), ...colors.map(color => color.join(' '))].join('\r\n') + '\r\n';
+    case 'hex':
+      return colors.map(toHex).join('\n') + '\n';
+  }
+};
+
+// A swatch strip with one pixel per color, left to right, which
+// paletteFromImage reads back in the same order
+export const renderPaletteSwatch = (palette: TargetPalette): RasterImage => {
+  const data = new Uint8ClampedArray(palette.colors.length * 4);
+  palette.colors.forEach((color, i) => data.set([...color, 255], i * 4));
+  return { width: palette.colors.length, height: 1, data };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { RasterImage } from './gridDetection';
+import { processImage } from './pipeline';
+
+const SPRITE_WIDTH = 32;
+const SPRITE_HEIGHT = 24;
+const SCALE = 4;
+
+// A sprite of random colors from a small palette, scaled up by SCALE with
+// nearest neighbour, dropping the first `skipRows` rows of the result
+const upscaledSprite = (skipRows = 0): RasterImage => {
+  let seed = 7;
+  const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+  const palette = Array.from({ length: 8 }, () => [0, 1, 2].map(() => Math.floor(random() * 256)));
+  const cells = Array.from({ length: SPRITE_WIDTH * SPRITE_HEIGHT }, () => palette[Math.floor(random() * palette.length)]);
+
+  const width = SPRITE_WIDTH * SCALE;
+  const height = SPRITE_HEIGHT * SCALE - skipRows;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = cells[Math.floor((y + skipRows) / SCALE) * SPRITE_WIDTH + Math.floor(x / SCALE)];
+      data.set([...color, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+describe('processImage', () => {
+  it('reconstructs an integer-scaled sprite at its exact size', () => {
+    const result = processImage(upscaledSprite());
+    expect(result?.pixelArt.width).toBe(SPRITE_WIDTH);
+    expect(result?.pixelArt.height).toBe(SPRITE_HEIGHT);
+    expect(result?.reconstruction.mse).toBe(0);
+  });
+
+  it('keeps the first row and column with the JPEG cleanup', () => {
+    const result = processImage(upscaledSprite(), { preprocessing: { enabled: true, bilateral: false } });
+    expect(result?.pixelArt.width).toBe(SPRITE_WIDTH);
+    expect(result?.pixelArt.height).toBe(SPRITE_HEIGHT);
+    expect(Math.abs(result?.offsetX ?? 1)).toBeLessThanOrEqual(0.5);
+    expect(Math.abs(result?.offsetY ?? 1)).toBeLessThanOrEqual(0.5);
+  });
+
+  it('samples a first row cut short by the image edge', () => {
+    const result = processImage(upscaledSprite(1));
+    expect(result?.offsetY).toBeCloseTo(-0.25, 1);
+    expect(result?.pixelArt.height).toBe(SPRITE_HEIGHT);
+  });
+});
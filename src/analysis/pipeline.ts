@@ -0,0 +1,108 @@
+import {
+  analyzeImage,
+  AnalysisProgressCallback,
+  DEFAULT_EDGE_SIGNAL,
+  DEFAULT_LINE_SAMPLING_OPTIONS,
+  DEFAULT_PEAK_SEARCH_OPTIONS,
+  DEFAULT_SAMPLING_OPTIONS,
+  detectedGeometry,
+  EdgeSignal,
+  ImageAnalysisResult,
+  LineSamplingOptions,
+  PeakSearchOptions,
+  RasterImage,
+  SamplingOptions,
+  StrideEstimate
+} from './gridDetection';
+import {
+  buildColorHistogram,
+  ColorCount,
+  createTransparentVersion,
+  renderPixelArt,
+  trimTransparentPixels
+} from './reconstruction';
+import { PaletteReductionOptions, reducePalette } from './palette';
+import { DEFAULT_PREPROCESSING_OPTIONS, PreprocessingOptions } from './preprocessing';
+import { compareImages, ReconstructionScore, upscaleNearest } from './quality';
+import { PaletteSnapOptions, snapToPalette } from './targetPalette';
+
+export interface ProcessImageOptions {
+  peakSearch?: PeakSearchOptions;
+  lineSampling?: LineSamplingOptions;
+  sampling?: SamplingOptions;
+  edgeSignal?: EdgeSignal;
+  preprocessing?: PreprocessingOptions;
+  palette?: PaletteReductionOptions; // Fold near-duplicate colors of the sampled sprite together
+  targetPalette?: PaletteSnapOptions; // Then snap every color to a fixed palette
+  transparency?: boolean; // Clear the most common color where it touches the edges
+  trim?: boolean; // Crop the transparent version to its content plus a 1-pixel margin
+  onProgress?: AnalysisProgressCallback;
+}
+
+// Everything the browser shows for one image, without any DOM dependencies
+export interface ProcessedImage {
+  strideX: StrideEstimate;
+  strideY: StrideEstimate;
+  offsetX: number;
+  offsetY: number;
+  confidenceX: number;
+  confidenceY: number;
+  pixelArt: RasterImage;
+  transparentPixelArt: RasterImage | null;
+  palette: ColorCount[];
+  reconstruction: ReconstructionScore; // How well the pixel art, scaled back up, matches the image
+  analysis: ImageAnalysisResult;
+}
+
+// Detect the native grid of an upscaled image and reconstruct it at native
+// resolution. Returns null when no grid could be detected.
+export const processImage = (
+  image: RasterImage,
+  options: ProcessImageOptions = {}
+): ProcessedImage | null => {
+  const analysis = analyzeImage(image, {
+    peakSearch: options.peakSearch ?? DEFAULT_PEAK_SEARCH_OPTIONS,
+    lineSampling: options.lineSampling ?? DEFAULT_LINE_SAMPLING_OPTIONS,
+    sampling: options.sampling ?? DEFAULT_SAMPLING_OPTIONS,
+    edgeSignal: options.edgeSignal ?? DEFAULT_EDGE_SIGNAL,
+    preprocessing: options.preprocessing ?? DEFAULT_PREPROCESSING_OPTIONS
+  }, options.onProgress);
+
+  if (!analysis || analysis.samples.length === 0) {
+    return null;
+  }
+
+  const { rowAnalysis, columnAnalysis } = analysis;
+  const geometry = detectedGeometry(analysis);
+  if (!geometry || !rowAnalysis.strideEstimate || !columnAnalysis.strideEstimate) {
+    return null;
+  }
+
+  const sampled = renderPixelArt(analysis.samples);
+  const reduced = options.palette ? reducePalette(sampled, options.palette) : sampled;
+  const pixelArt = options.targetPalette ? snapToPalette(reduced, options.targetPalette) : reduced;
+  const palette = buildColorHistogram(pixelArt);
+  const reconstruction = compareImages(image, upscaleNearest(pixelArt, geometry, image.width, image.height));
+
+  let transparentPixelArt: RasterImage | null = null;
+  if (options.transparency && palette.length > 0) {
+    transparentPixelArt = createTransparentVersion(pixelArt, palette[0].rgba);
+    if (options.trim) {
+      transparentPixelArt = trimTransparentPixels(transparentPixelArt) ?? transparentPixelArt;
+    }
+  }
+
+  return {
+    strideX: rowAnalysis.strideEstimate,
+    strideY: columnAnalysis.strideEstimate,
+    offsetX: rowAnalysis.offset,
+    offsetY: columnAnalysis.offset,
+    confidenceX: rowAnalysis.confidence,
+    confidenceY: columnAnalysis.confidence,
+    pixelArt,
+    transparentPixelArt,
+    palette,
+    reconstruction,
+    analysis
+  };
+};
@@ -0,0 +1,208 @@
+import { Axis, RasterImage } from './gridDetection';
+
+// Cleanup of compressed images ahead of the derivative. Chat apps and web
+// previews recompress images as JPEG, whose 8x8 blocks leave faint steps on
+// every block boundary and ringing around real edges. The steps line up into
+// a false grid with an 8-pixel pitch.
+
+export interface PreprocessingOptions {
+  enabled: boolean; // Denoise and smooth out JPEG block boundaries before the derivative
+  bilateral: boolean; // Also apply an edge-preserving bilateral filter
+}
+
+export const DEFAULT_PREPROCESSING_OPTIONS: PreprocessingOptions = {
+  enabled: false,
+  bilateral: false
+};
+
+// Side of a JPEG block, in pixels
+export const JPEG_BLOCK_SIZE = 8;
+
+// Steps across a block boundary up to this size (per channel, 0 - 255) are
+// taken for compression artifacts; larger ones are real edges
+const MAX_BLOCK_STEP = 24;
+
+// Bilateral filter window radius, spatial sigma in pixels and range sigma in channel levels
+const BILATERAL_RADIUS = 2;
+const BILATERAL_SPATIAL_SIGMA = 1;
+const BILATERAL_RANGE_SIGMA = 10;
+
+// The summed spectrum must rise this far above its neighbourhood's median at
+// the block frequency to count as a block peak
+const BLOCK_PEAK_RATIO = 3;
+
+// Run the enabled cleanup steps. Returns the image itself when disabled.
+export const preprocessImage = (image: RasterImage, options: PreprocessingOptions): RasterImage => {
+  if (!options.enabled) return image;
+
+  let result = medianFilter(image);
+  result = deblock(deblock(result, 'x'), 'y');
+  if (options.bilateral) {
+    result = bilateralFilter(result);
+  }
+  return result;
+};
+
+// 3x3 median per channel. Removes the speckle and ringing JPEG leaves near
+// edges while keeping the edges themselves sharp.
+const medianFilter = (image: RasterImage): RasterImage => {
+  const { width, height, data } = image;
+  const output = new Uint8ClampedArray(data.length);
+  const window: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let channel = 0; channel < 4; channel++) {
+        window.length = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          const sy = Math.min(height - 1, Math.max(0, y + dy));
+          for (let dx = -1; dx <= 1; dx++) {
+            const sx = Math.min(width - 1, Math.max(0, x + dx));
+            window.push(data[(sy * width + sx) * 4 + channel]);
+          }
+        }
+        window.sort((a, b) => a - b);
+        output[(y * width + x) * 4 + channel] = window[4];
+      }
+    }
+  }
+
+  return { width, height, data: output };
+};
+
+// Position within a block where the boundaries along an axis fall, from the
+// mean step at each of the eight possible phases. 'x' runs along rows.
+const blockPhase = (image: RasterImage, axis: Axis): number => {
+  const { width, height, data } = image;
+  const lineLength = axis === 'x' ? width : height;
+  const lineCount = axis === 'x' ? height : width;
+  const energy = new Array(JPEG_BLOCK_SIZE).fill(0);
+
+  for (let line = 0; line < lineCount; line++) {
+    for (let i = 1; i < lineLength; i++) {
+      const a = (axis === 'x' ? line * width + i - 1 : (i - 1) * width + line) * 4;
+      const b = (axis === 'x' ? line * width + i : i * width + line) * 4;
+      energy[i % JPEG_BLOCK_SIZE] += Math.abs(data[a] - data[b]) + Math.abs(data[a + 1] - data[b + 1]) +
+        Math.abs(data[a + 2] - data[b + 2]);
+    }
+  }
+
+  return energy.indexOf(Math.max(...energy));
+};
+
+// Replace small steps across block boundaries with a ramp from the middle of
+// one block to the middle of the next, so every pixel along it differs from
+// its neighbour by the same amount and nothing is left at the block
+// frequency for the derivative to pick up. Steps over MAX_BLOCK_STEP, or on
+// a slope as steep as the step itself, are left alone as real detail.
+const deblock = (image: RasterImage, axis: Axis): RasterImage => {
+  const { width, height } = image;
+  const data = Float32Array.from(image.data);
+  const lineLength = axis === 'x' ? width : height;
+  const lineCount = axis === 'x' ? height : width;
+  const half = JPEG_BLOCK_SIZE / 2;
+  const index = (line: number, i: number) => (axis === 'x' ? line * width + i : i * width + line) * 4;
+
+  for (let boundary = blockPhase(image, axis); boundary < lineLength; boundary += JPEG_BLOCK_SIZE) {
+    if (boundary < half || boundary + half > lineLength) continue;
+
+    for (let line = 0; line < lineCount; line++) {
+      for (let channel = 0; channel < 4; channel++) {
+        const before = data[index(line, boundary - 1) + channel];
+        const after = data[index(line, boundary) + channel];
+        const step = after - before;
+        if (step === 0 || Math.abs(step) > MAX_BLOCK_STEP) continue;
+
+        const slopeBefore = Math.abs(before - data[index(line, boundary - 2) + channel]);
+        const slopeAfter = Math.abs(data[index(line, boundary + 1) + channel] - after);
+        if (Math.max(slopeBefore, slopeAfter) >= Math.abs(step)) continue;
+
+        for (let k = 0; k < half; k++) {
+          const correction = (step * (half - 0.5 - k)) / JPEG_BLOCK_SIZE;
+          data[index(line, boundary - 1 - k) + channel] += correction;
+          data[index(line, boundary + k) + channel] -= correction;
+        }
+      }
+    }
+  }
+
+  return { width, height, data: Uint8ClampedArray.from(data, value => Math.round(value)) };
+};
+
+// Edge-preserving smoothing: each pixel becomes the mean of its neighbours,
+// weighted down by distance and by how different their color is
+const bilateralFilter = (image: RasterImage): RasterImage => {
+  const { width, height, data } = image;
+  const output = new Uint8ClampedArray(data.length);
+  const spatialScale = -1 / (2 * BILATERAL_SPATIAL_SIGMA * BILATERAL_SPATIAL_SIGMA);
+  const rangeScale = -1 / (2 * BILATERAL_RANGE_SIGMA * BILATERAL_RANGE_SIGMA);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = (y * width + x) * 4;
+      const sums = [0, 0, 0, 0];
+      let totalWeight = 0;
+
+      for (let dy = -BILATERAL_RADIUS; dy <= BILATERAL_RADIUS; dy++) {
+        const sy = y + dy;
+        if (sy < 0 || sy >= height) continue;
+        for (let dx = -BILATERAL_RADIUS; dx <= BILATERAL_RADIUS; dx++) {
+          const sx = x + dx;
+          if (sx < 0 || sx >= width) continue;
+
+          const neighbour = (sy * width + sx) * 4;
+          const colorDistance = (data[neighbour] - data[center]) ** 2 +
+            (data[neighbour + 1] - data[center + 1]) ** 2 +
+            (data[neighbour + 2] - data[center + 2]) ** 2;
+          const weight = Math.exp((dx * dx + dy * dy) * spatialScale + colorDistance * rangeScale);
+          for (let channel = 0; channel < 4; channel++) {
+            sums[channel] += data[neighbour + channel] * weight;
+          }
+          totalWeight += weight;
+        }
+      }
+
+      for (let channel = 0; channel < 4; channel++) {
+        output[center + channel] = Math.round(sums[channel] / totalWeight);
+      }
+    }
+  }
+
+  return { width, height, data: output };
+};
+
+// Whether a summed derivative spectrum peaks at the 8-pixel block period in
+// a way the detected stride doesn't explain. A grid whose stride is a
+// multiple of 8 has a harmonic there anyway.
+export const hasBlockPeak = (
+  magnitudes: number[],
+  derivativeLength: number,
+  binsPerFrequency: number,
+  stride: number | null
+): boolean => {
+  if (stride !== null) {
+    const blocks = Math.round(stride / JPEG_BLOCK_SIZE);
+    if (blocks >= 1 && Math.abs(stride - blocks * JPEG_BLOCK_SIZE) < 0.05 * stride) return false;
+  }
+
+  const bin = Math.round((derivativeLength * binsPerFrequency) / JPEG_BLOCK_SIZE);
+  const reach = binsPerFrequency;
+  if (bin - 2 * reach <= 0 || bin + 2 * reach >= magnitudes.length) return false;
+
+  let peak = 0;
+  for (let i = bin - reach; i <= bin + reach; i++) {
+    peak = Math.max(peak, magnitudes[i]);
+  }
+
+  // Compare with the spectrum within 20% of the block frequency, away from the peak itself
+  const spread = Math.max(4 * reach, Math.round(bin * 0.2));
+  const neighbourhood: number[] = [];
+  for (let i = Math.max(1, bin - spread); i <= Math.min(magnitudes.length - 1, bin + spread); i++) {
+    if (Math.abs(i - bin) > 2 * reach) neighbourhood.push(magnitudes[i]);
+  }
+  if (neighbourhood.length === 0) return false;
+
+  neighbourhood.sort((a, b) => a - b);
+  const median = neighbourhood[Math.floor(neighbourhood.length / 2)];
+  return peak > BLOCK_PEAK_RATIO * median;
+};
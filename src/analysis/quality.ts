@@ -0,0 +1,367 @@
+import {
+  DEFAULT_EDGE_SIGNAL,
+  DEFAULT_SAMPLING_OPTIONS,
+  EdgeSignal,
+  estimateEdgeOffset,
+  GridGeometry,
+  lineDerivatives,
+  PixelSample,
+  RasterImage,
+  sampleGrid,
+  SamplingOptions
+} from './gridDetection';
+import { renderPixelArt } from './reconstruction';
+
+// Objective reconstruction quality: scale the native-resolution sprite back
+// up onto the sampled grid with nearest-neighbour and compare it with the
+// original pixel by pixel.
+
+export interface ReconstructionScore {
+  mse: number; // Mean squared error over the RGB channels (0 - 65025)
+  psnr: number; // Peak signal-to-noise ratio in dB, Infinity for an exact match
+  ssim: number; // Mean structural similarity of the luminance (-1.0 - 1.0, 1.0 is identical)
+}
+
+export interface ReconstructionComparison {
+  score: ReconstructionScore;
+  upscaled: RasterImage;
+  diff: RasterImage; // Per-pixel error as a heat map, black where identical
+}
+
+// Outcome of searching stride and offset for the lowest reconstruction error
+export interface GridRefinement {
+  geometry: GridGeometry;
+  mse: number;
+  initialMse: number; // Error of the grid the search started from
+  evaluations: number; // Number of grids sampled and scored
+}
+
+// Reports the search's progress (0.0 - 1.0) and the best grid found so far
+export type RefinementProgressCallback = (fraction: number, best: GridGeometry, mse: number) => void;
+
+// SSIM window size and step, in pixels
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+
+// Stabilizing constants from the SSIM paper for 8-bit values
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Refinement searches strides within this fraction of the starting stride,
+// or at least REFINE_MIN_SPAN pixels either side
+const REFINE_SPAN_FRACTION = 0.1;
+const REFINE_MIN_SPAN = 0.5;
+// Most stride steps the coarse scan takes either side of the start
+const REFINE_MAX_SCAN_STEPS = 50;
+// Offset step the pattern search starts from
+const REFINE_OFFSET_STEP = 0.05;
+// Finest step for both stride and offset, matching the two decimals the
+// offset and stride spinners show
+const REFINE_RESOLUTION = 0.01;
+// Share of each axis's progress spent on the coarse scan
+const REFINE_COARSE_SHARE = 0.7;
+
+// Grid cell each pixel along an axis falls in, clamped to the sampled cells
+const cellIndices = (size: number, stride: number, offset: number, cells: number): number[] => {
+  const indices: number[] = [];
+  for (let i = 0; i < size; i++) {
+    const cell = Math.floor((i + 0.5) / stride - offset);
+    indices.push(Math.max(0, Math.min(cells - 1, cell)));
+  }
+  return indices;
+};
+
+// Scale a sprite back to the original size, reading every pixel from the
+// grid cell it falls in. Pixels before the first or after the last sampled
+// cell take the nearest edge cell.
+export const upscaleNearest = (
+  pixelArt: RasterImage,
+  geometry: GridGeometry,
+  width: number,
+  height: number
+): RasterImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const columns = cellIndices(width, geometry.strideX, geometry.offsetX, pixelArt.width);
+  const rows = cellIndices(height, geometry.strideY, geometry.offsetY, pixelArt.height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (rows[y] * pixelArt.width + columns[x]) * 4;
+      data.set(pixelArt.data.subarray(source, source + 4), (y * width + x) * 4);
+    }
+  }
+
+  return { width, height, data };
+};
+
+const luminance = (data: Uint8ClampedArray | Uint8Array, index: number) =>
+  0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+
+// Mean SSIM over overlapping windows of the luminance
+const structuralSimilarity = (original: RasterImage, reconstructed: RasterImage): number => {
+  const { width, height } = original;
+  const window = Math.min(SSIM_WINDOW, width, height);
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + window <= height; top += SSIM_STEP) {
+    for (let left = 0; left + window <= width; left += SSIM_STEP) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+
+      for (let y = top; y < top + window; y++) {
+        for (let x = left; x < left + window; x++) {
+          const index = (y * width + x) * 4;
+          const a = luminance(original.data, index);
+          const b = luminance(reconstructed.data, index);
+          sumA += a;
+          sumB += b;
+          sumAA += a * a;
+          sumBB += b * b;
+          sumAB += a * b;
+        }
+      }
+
+      const n = window * window;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varianceA = sumAA / n - meanA * meanA;
+      const varianceB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varianceA + varianceB + SSIM_C2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+};
+
+// Compare two images of the same size
+export const compareImages = (original: RasterImage, reconstructed: RasterImage): ReconstructionScore => {
+  let squaredError = 0;
+  const pixels = original.width * original.height;
+
+  for (let i = 0; i < original.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const difference = original.data[i + c] - reconstructed.data[i + c];
+      squaredError += difference * difference;
+    }
+  }
+
+  const mse = pixels > 0 ? squaredError / (pixels * 3) : 0;
+
+  return {
+    mse,
+    psnr: mse > 0 ? 10 * Math.log10((255 * 255) / mse) : Infinity,
+    ssim: structuralSimilarity(original, reconstructed)
+  };
+};
+
+// Visualize the per-pixel error: black where the pixels match, through red
+// to yellow for the largest differences
+export const renderDiffImage = (original: RasterImage, reconstructed: RasterImage): RasterImage => {
+  const { width, height } = original;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let i = 0; i < original.data.length; i += 4) {
+    // Largest channel difference, so a change in any channel shows up
+    const error = Math.max(
+      Math.abs(original.data[i] - reconstructed.data[i]),
+      Math.abs(original.data[i + 1] - reconstructed.data[i + 1]),
+      Math.abs(original.data[i + 2] - reconstructed.data[i + 2])
+    );
+    // Amplify small errors so they remain visible
+    const level = Math.min(1, Math.sqrt(error / 255) * 1.5);
+    data[i] = Math.round(Math.min(1, level * 2) * 255);
+    data[i + 1] = Math.round(Math.max(0, level * 2 - 1) * 255);
+    data[i + 2] = 0;
+    data[i + 3] = 255;
+  }
+
+  return { width, height, data };
+};
+
+// Re-upscale the samples taken on a grid and compare them with the image
+export const compareReconstruction = (
+  image: RasterImage,
+  samples: PixelSample[],
+  geometry: GridGeometry
+): ReconstructionComparison | null => {
+  if (samples.length === 0) return null;
+
+  const upscaled = upscaleNearest(renderPixelArt(samples), geometry, image.width, image.height);
+
+  return {
+    score: compareImages(image, upscaled),
+    upscaled,
+    diff: renderDiffImage(image, upscaled)
+  };
+};
+
+// Sample a grid and score how well it reproduces the image, for ranking
+// alternative strides and offsets against each other
+export const scoreGrid = (
+  image: RasterImage,
+  geometry: GridGeometry,
+  sampling?: SamplingOptions
+): ReconstructionScore | null => {
+  const samples = sampleGrid(image, geometry.strideX, geometry.strideY, geometry.offsetX, geometry.offsetY, sampling);
+  if (samples.length === 0) return null;
+
+  const upscaled = upscaleNearest(renderPixelArt(samples), geometry, image.width, image.height);
+  return compareImages(image, upscaled);
+};
+
+const roundToResolution = (value: number) => Math.round(value / REFINE_RESOLUTION) / (1 / REFINE_RESOLUTION);
+
+// Offsets wrap around into (-0.5, 0.5], since shifting the grid by a whole
+// cell gives the same grid. Past half a cell the first cell would start off
+// the image and go unsampled.
+const wrapOffset = (offset: number) => {
+  const rounded = roundToResolution(offset);
+  return roundToResolution(rounded - Math.ceil(rounded - 0.5));
+};
+
+// Mean squared error of the image against the grid's samples scaled back up,
+// without building the upscaled image. Alpha counts too when the grid is
+// found by its transparency.
+const gridError = (image: RasterImage, geometry: GridGeometry, sampling: SamplingOptions, channels: number): number => {
+  const samples = sampleGrid(image, geometry.strideX, geometry.strideY, geometry.offsetX, geometry.offsetY, sampling);
+  if (samples.length === 0) return Infinity;
+
+  const pixelArt = renderPixelArt(samples);
+  const { width, height, data } = image;
+  const columns = cellIndices(width, geometry.strideX, geometry.offsetX, pixelArt.width);
+  const rows = cellIndices(height, geometry.strideY, geometry.offsetY, pixelArt.height);
+  let squaredError = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      const source = (rows[y] * pixelArt.width + columns[x]) * 4;
+      for (let c = 0; c < channels; c++) {
+        const difference = data[index + c] - pixelArt.data[source + c];
+        squaredError += difference * difference;
+      }
+    }
+  }
+
+  return squaredError / (width * height * channels);
+};
+
+// Search stride and offset on each axis in turn for the grid whose samples
+// best reproduce the image. The error only dips within a narrow band of
+// strides, so a coarse scan steps through strides finely enough not to
+// jump over it, taking each stride's offset from the phase of the edges.
+// A pattern search over stride and offset then narrows the best grid down
+// to REFINE_RESOLUTION. The axes only interact weakly, so one pass each is
+// enough.
+export const refineGrid = (
+  image: RasterImage,
+  initial: GridGeometry,
+  sampling: SamplingOptions = DEFAULT_SAMPLING_OPTIONS,
+  onProgress?: RefinementProgressCallback,
+  signal: EdgeSignal = DEFAULT_EDGE_SIGNAL
+): GridRefinement => {
+  const scores = new Map<string, number>();
+  let evaluations = 0;
+
+  const evaluate = (geometry: GridGeometry): number => {
+    const key = `${geometry.strideX},${geometry.offsetX},${geometry.strideY},${geometry.offsetY}`;
+    let mse = scores.get(key);
+    if (mse === undefined) {
+      mse = gridError(image, geometry, sampling, signal === 'alpha' ? 4 : 3);
+      scores.set(key, mse);
+      evaluations++;
+    }
+    return mse;
+  };
+
+  let best: GridGeometry = { ...initial };
+  let bestMse = evaluate(best);
+  const initialMse = bestMse;
+
+  (['x', 'y'] as const).forEach((axis, axisIndex) => {
+    const strideOf = (geometry: GridGeometry) => axis === 'x' ? geometry.strideX : geometry.strideY;
+    const offsetOf = (geometry: GridGeometry) => axis === 'x' ? geometry.offsetX : geometry.offsetY;
+
+    // Score the current best grid with this axis moved, keeping it if it's better
+    const consider = (stride: number, offset: number) => {
+      stride = roundToResolution(stride);
+      // Cells narrower than a pixel can't be sampled meaningfully
+      if (stride < 1) return;
+
+      offset = wrapOffset(offset);
+      const candidate = axis === 'x'
+        ? { ...best, strideX: stride, offsetX: offset }
+        : { ...best, strideY: stride, offsetY: offset };
+      const mse = evaluate(candidate);
+      if (mse < bestMse) {
+        best = candidate;
+        bestMse = mse;
+      }
+    };
+
+    const report = (axisFraction: number) => {
+      onProgress?.((axisIndex + axisFraction) / 2, best, bestMse);
+    };
+
+    // Edges summed over every line along the axis ('x' runs along rows)
+    const length = axis === 'x' ? image.width : image.height;
+    const lineCount = axis === 'x' ? image.height : image.width;
+    const edges: number[] = new Array(length - 1).fill(0);
+    for (let position = 0; position < lineCount; position++) {
+      lineDerivatives(image, axis, position, signal).forEach((value, i) => {
+        edges[i] += value;
+      });
+    }
+
+    // A stride off by δ drifts the last boundary by δ·length/stride pixels;
+    // keep that under a quarter of a cell between scan steps
+    const start = strideOf(best);
+    const span = Math.max(REFINE_MIN_SPAN, start * REFINE_SPAN_FRACTION);
+    let strideStep = Math.max(REFINE_RESOLUTION, (start * start) / (4 * length));
+    const scanSteps = Math.min(REFINE_MAX_SCAN_STEPS, Math.ceil(span / strideStep));
+    strideStep = Math.max(strideStep, span / scanSteps);
+
+    for (let k = -scanSteps; k <= scanSteps; k++) {
+      const stride = start + k * strideStep;
+      consider(stride, estimateEdgeOffset([edges], stride));
+      report(REFINE_COARSE_SHARE * (k + scanSteps + 1) / (2 * scanSteps + 1));
+    }
+
+    // Pattern search: move to the best neighbour until none improves, then
+    // halve the steps, down to the finest resolution
+    strideStep /= 2;
+    let offsetStep = REFINE_OFFSET_STEP;
+
+    let levels = 1;
+    for (let s = strideStep, o = offsetStep; s > REFINE_RESOLUTION || o > REFINE_RESOLUTION; levels++) {
+      s = Math.max(REFINE_RESOLUTION, s / 2);
+      o = Math.max(REFINE_RESOLUTION, o / 2);
+    }
+
+    for (let level = 1; level <= levels; level++) {
+      let centre: GridGeometry;
+      do {
+        centre = best;
+        for (let ds = -1; ds <= 1; ds++) {
+          for (let dO = -1; dO <= 1; dO++) {
+            consider(strideOf(centre) + ds * strideStep, offsetOf(centre) + dO * offsetStep);
+          }
+        }
+      } while (best !== centre);
+
+      report(REFINE_COARSE_SHARE + (1 - REFINE_COARSE_SHARE) * level / levels);
+      strideStep = Math.max(REFINE_RESOLUTION, strideStep / 2);
+      offsetStep = Math.max(REFINE_RESOLUTION, offsetStep / 2);
+    }
+  });
+
+  return { geometry: best, mse: bestMse, initialMse, evaluations };
+};
@@ -0,0 +1,197 @@
+import { PixelSample, RasterImage } from './gridDetection';
+
+// Framework-free reconstruction of the native-resolution sprite from grid
+// samples, plus the palette and background-removal steps built on it.
+
+export interface ColorCount {
+  color: string; // Hex color
+  count: number;
+  rgba: [number, number, number, number]; // RGBA values
+}
+
+// Content bounds as [left, top, right, bottom], right and bottom exclusive
+export type ContentBounds = [number, number, number, number];
+
+// Write each sample into a 1x1 pixel of a new image sized to the sampled grid
+export const renderPixelArt = (pixelSamples: PixelSample[]): RasterImage => {
+  // The grid may start part-way into the image, so size the output from the
+  // cells that were actually sampled
+  const width = pixelSamples.reduce((max, sample) => Math.max(max, sample.gridX), 0) + 1;
+  const height = pixelSamples.reduce((max, sample) => Math.max(max, sample.gridY), 0) + 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (const sample of pixelSamples) {
+    const index = (sample.gridY * width + sample.gridX) * 4;
+    data.set(sample.color, index);
+  }
+
+  return { width, height, data };
+};
+
+// Count occurrences of each opaque color, most frequent first
+export const buildColorHistogram = (image: RasterImage): ColorCount[] => {
+  const data = image.data;
+  const colorCounts: Record<string, ColorCount> = {};
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const a = data[i + 3];
+
+    // Skip fully transparent pixels
+    if (a === 0) continue;
+
+    // Create a hex color key for the map
+    const colorKey = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+
+    if (colorCounts[colorKey]) {
+      colorCounts[colorKey].count++;
+    } else {
+      colorCounts[colorKey] = {
+        color: colorKey,
+        count: 1,
+        rgba: [r, g, b, a]
+      };
+    }
+  }
+
+  return Object.values(colorCounts).sort((a, b) => b.count - a.count);
+};
+
+// Make the target color transparent wherever it is connected to the image edges
+export const createTransparentVersion = (
+  image: RasterImage,
+  targetColor: [number, number, number, number],
+  tolerance: number = 5
+): RasterImage => {
+  const { width, height } = image;
+  const data = new Uint8ClampedArray(image.data);
+
+  // Create a visited array for flood fill
+  const visited = new Array(width * height).fill(false);
+
+  // Queue for flood fill
+  const queue: [number, number][] = [];
+
+  // Helper function to check if a pixel matches the target color
+  const isTargetColor = (x: number, y: number): boolean => {
+    const index = (y * width + x) * 4;
+    const [tr, tg, tb] = targetColor;
+
+    return (
+      Math.abs(data[index] - tr) <= tolerance &&
+      Math.abs(data[index + 1] - tg) <= tolerance &&
+      Math.abs(data[index + 2] - tb) <= tolerance
+    );
+  };
+
+  // Add edge pixels that match the target color to the queue
+  // Top and bottom edges
+  for (let x = 0; x < width; x++) {
+    if (isTargetColor(x, 0)) {
+      queue.push([x, 0]);
+      visited[x] = true;
+    }
+    if (isTargetColor(x, height - 1)) {
+      queue.push([x, height - 1]);
+      visited[(height - 1) * width + x] = true;
+    }
+  }
+
+  // Left and right edges
+  for (let y = 0; y < height; y++) {
+    if (isTargetColor(0, y)) {
+      queue.push([0, y]);
+      visited[y * width] = true;
+    }
+    if (isTargetColor(width - 1, y)) {
+      queue.push([width - 1, y]);
+      visited[y * width + (width - 1)] = true;
+    }
+  }
+
+  // Perform flood fill
+  const directions = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+  for (let head = 0; head < queue.length; head++) {
+    const [x, y] = queue[head];
+
+    // Make this pixel transparent
+    data[(y * width + x) * 4 + 3] = 0;
+
+    // Check the 4 adjacent pixels
+    for (const [dx, dy] of directions) {
+      const nx = x + dx;
+      const ny = y + dy;
+
+      // Check if the new position is within bounds
+      if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+        const newIndex = ny * width + nx;
+
+        // If not visited and matches the target color, add to queue
+        if (!visited[newIndex] && isTargetColor(nx, ny)) {
+          queue.push([nx, ny]);
+          visited[newIndex] = true;
+        }
+      }
+    }
+  }
+
+  return { width, height, data };
+};
+
+// Find the bounding box of non-transparent pixels
+export const findContentBounds = (image: RasterImage): ContentBounds | null => {
+  const { width, height, data } = image;
+
+  let left = width;
+  let right = 0;
+  let top = height;
+  let bottom = 0;
+  let foundContent = false;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // If pixel is not fully transparent
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        foundContent = true;
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+
+  if (!foundContent) {
+    return null;
+  }
+
+  return [left, top, right + 1, bottom + 1];
+};
+
+// Crop transparent edges, leaving exactly `margin` transparent pixels around
+// the content. Returns null when the image has no visible content.
+export const trimTransparentPixels = (image: RasterImage, margin: number = 1): RasterImage | null => {
+  const bounds = findContentBounds(image);
+
+  if (!bounds) {
+    return null;
+  }
+
+  const [left, top, right, bottom] = bounds;
+  const width = (right - left) + 2 * margin;
+  const height = (bottom - top) + 2 * margin;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  // Copy the content rows into the new image, offset by the margin
+  for (let y = top; y < bottom; y++) {
+    const sourceStart = (y * image.width + left) * 4;
+    const sourceEnd = (y * image.width + right) * 4;
+    const targetStart = ((y - top + margin) * width + margin) * 4;
+    data.set(image.data.subarray(sourceStart, sourceEnd), targetStart);
+  }
+
+  return { width, height, data };
+};
@@ -0,0 +1,307 @@
+import { interpolatePeak, RasterImage } from './gridDetection';
+
+// Two-dimensional spectrum of the derivative image. The 1D analysis only
+// sees repeats along columns and rows; here a rotated or skewed grid shows
+// up as a tilted lattice of peaks and a dither pattern as extra peaks
+// between the grid's.
+
+export interface Spectrum2DOptions {
+  windowed: boolean; // Taper the edges with a Hann window to suppress the cross from the image border
+  maxSize: number; // Largest FFT size per axis; bigger images are center-cropped
+}
+
+// A peak in the spectrum, with (u, v) the number of cycles across the
+// analyzed width and height, interpolated between bins. Only the half-plane
+// v >= 0 is reported since the spectrum of a real image is symmetric.
+export interface SpectrumPeak {
+  u: number;
+  v: number;
+  magnitude: number;
+  period: number; // Pixels between repeats along the peak's direction
+  angle: number; // Direction of the repeat in degrees, 0 for columns repeating horizontally
+}
+
+export interface Spectrum2D {
+  width: number; // FFT size, a power of two
+  height: number;
+  windowed: boolean;
+  heatmap: RasterImage; // Log magnitude with DC in the center at (width / 2, height / 2)
+  peaks: SpectrumPeak[]; // Strongest local maxima, strongest first
+  lattice: SpectrumPeak[]; // Up to two non-collinear fundamentals spanning the peak lattice
+}
+
+export const DEFAULT_SPECTRUM_2D_OPTIONS: Spectrum2DOptions = {
+  windowed: true,
+  maxSize: 512
+};
+
+// Number of peaks reported
+const MAX_SPECTRUM_PEAKS = 12;
+// Peaks with fewer cycles than this across the image are slow shading, not a grid
+const MIN_PEAK_CYCLES = 4;
+// Half size of the neighbourhood a peak has to be the maximum of
+const PEAK_NEIGHBOURHOOD = 2;
+// Lattice vectors closer than this in direction are treated as collinear
+const MIN_LATTICE_ANGLE = 20;
+// A peak at 1/d of the lattice vector replaces it when at least this
+// fraction as strong, so a harmonic isn't mistaken for the fundamental
+const SUBHARMONIC_STRENGTH = 0.5;
+
+// Heat map color stops from black through purple and orange to pale yellow
+const HEATMAP_STOPS: [number, number, number][] = [
+  [0, 0, 4],
+  [87, 16, 110],
+  [188, 55, 84],
+  [249, 142, 9],
+  [252, 255, 164]
+];
+
+const largestPowerOfTwo = (value: number) => 2 ** Math.floor(Math.log2(Math.max(1, value)));
+
+// In-place iterative radix-2 FFT. The 1D analysis uses mathjs, but its
+// Complex objects are too slow for the hundreds of thousands of points here.
+const fftInPlace = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+};
+
+// Gradient magnitude of the grayscale image over a centered crop, with the
+// mean removed so DC doesn't swamp the spectrum
+const derivativeImage = (image: RasterImage, width: number, height: number, windowed: boolean): Float64Array => {
+  const left = Math.floor((image.width - width) / 2);
+  const top = Math.floor((image.height - height) / 2);
+  const gray = (x: number, y: number) => {
+    const index = (y * image.width + x) * 4;
+    return (image.data[index] + image.data[index + 1] + image.data[index + 2]) / 3;
+  };
+
+  const values = new Float64Array(width * height);
+  let sum = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sx = left + x;
+      const sy = top + y;
+      const here = gray(sx, sy);
+      const dx = sx + 1 < image.width ? Math.abs(gray(sx + 1, sy) - here) : 0;
+      const dy = sy + 1 < image.height ? Math.abs(gray(sx, sy + 1) - here) : 0;
+      values[y * width + x] = dx + dy;
+      sum += dx + dy;
+    }
+  }
+
+  const mean = sum / values.length;
+  for (let y = 0; y < height; y++) {
+    const windowY = windowed ? 0.5 - 0.5 * Math.cos(2 * Math.PI * y / (height - 1 || 1)) : 1;
+    for (let x = 0; x < width; x++) {
+      const windowX = windowed ? 0.5 - 0.5 * Math.cos(2 * Math.PI * x / (width - 1 || 1)) : 1;
+      values[y * width + x] = (values[y * width + x] - mean) * windowX * windowY;
+    }
+  }
+
+  return values;
+};
+
+// Magnitude spectrum, shifted so DC sits in the center
+const magnitudeSpectrum = (values: Float64Array, width: number, height: number): Float64Array => {
+  const re = Float64Array.from(values);
+  const im = new Float64Array(width * height);
+
+  // Rows, then columns
+  const rowRe = new Float64Array(width);
+  const rowIm = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    rowRe.set(re.subarray(y * width, (y + 1) * width));
+    rowIm.set(im.subarray(y * width, (y + 1) * width));
+    fftInPlace(rowRe, rowIm);
+    re.set(rowRe, y * width);
+    im.set(rowIm, y * width);
+  }
+
+  const columnRe = new Float64Array(height);
+  const columnIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      columnRe[y] = re[y * width + x];
+      columnIm[y] = im[y * width + x];
+    }
+    fftInPlace(columnRe, columnIm);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = columnRe[y];
+      im[y * width + x] = columnIm[y];
+    }
+  }
+
+  const shifted = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = (y + height / 2) % height;
+    for (let x = 0; x < width; x++) {
+      const sx = (x + width / 2) % width;
+      const index = y * width + x;
+      shifted[sy * width + sx] = Math.hypot(re[index], im[index]);
+    }
+  }
+
+  return shifted;
+};
+
+const heatmapColor = (level: number): [number, number, number] => {
+  const position = Math.max(0, Math.min(1, level)) * (HEATMAP_STOPS.length - 1);
+  const index = Math.min(HEATMAP_STOPS.length - 2, Math.floor(position));
+  const fraction = position - index;
+  const [r1, g1, b1] = HEATMAP_STOPS[index];
+  const [r2, g2, b2] = HEATMAP_STOPS[index + 1];
+  return [r1 + (r2 - r1) * fraction, g1 + (g2 - g1) * fraction, b1 + (b2 - b1) * fraction];
+};
+
+// Log magnitude scaled between the median (the noise floor) and the maximum
+const renderHeatmap = (magnitudes: Float64Array, width: number, height: number): RasterImage => {
+  const logs = magnitudes.map(value => Math.log1p(value));
+  const sorted = Float64Array.from(logs).sort();
+  const floor = sorted[Math.floor(sorted.length / 2)];
+  const ceiling = sorted[sorted.length - 1];
+  const range = ceiling - floor || 1;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < logs.length; i++) {
+    const [r, g, b] = heatmapColor((logs[i] - floor) / range);
+    data[i * 4] = r;
+    data[i * 4 + 1] = g;
+    data[i * 4 + 2] = b;
+    data[i * 4 + 3] = 255;
+  }
+
+  return { width, height, data };
+};
+
+const toPeak = (u: number, v: number, magnitude: number, width: number, height: number): SpectrumPeak => {
+  const fx = u / width;
+  const fy = v / height;
+  return {
+    u,
+    v,
+    magnitude,
+    period: 1 / Math.hypot(fx, fy),
+    angle: (Math.atan2(fy, fx) * 180) / Math.PI
+  };
+};
+
+// Local maxima in the upper half-plane, skipping the slow components around DC
+const findSpectrumPeaks = (magnitudes: Float64Array, width: number, height: number): SpectrumPeak[] => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const peaks: SpectrumPeak[] = [];
+
+  for (let y = centerY; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x - centerX;
+      const v = y - centerY;
+      if (v === 0 && u <= 0) continue;
+      if (Math.hypot(u, v) < MIN_PEAK_CYCLES) continue;
+
+      const value = magnitudes[y * width + x];
+      let isMaximum = value > 0;
+      for (let dy = -PEAK_NEIGHBOURHOOD; dy <= PEAK_NEIGHBOURHOOD && isMaximum; dy++) {
+        for (let dx = -PEAK_NEIGHBOURHOOD; dx <= PEAK_NEIGHBOURHOOD; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if ((dx === 0 && dy === 0) || nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+          if (magnitudes[ny * width + nx] > value) {
+            isMaximum = false;
+            break;
+          }
+        }
+      }
+
+      if (isMaximum) {
+        const row = Array.from(magnitudes.subarray(y * width + x - 1, y * width + x + 2));
+        const column = [magnitudes[(y - 1) * width + x], value, magnitudes[(y + 1) * width + x]];
+        const du = x > 0 && x < width - 1 ? interpolatePeak(row, 1, 'gaussian') - 1 : 0;
+        const dv = y < height - 1 ? interpolatePeak(column, 1, 'gaussian') - 1 : 0;
+        peaks.push(toPeak(u + du, v + dv, value, width, height));
+      }
+    }
+  }
+
+  return peaks.sort((a, b) => b.magnitude - a.magnitude).slice(0, MAX_SPECTRUM_PEAKS);
+};
+
+// Replace a peak with a strong enough one at a third or half of its
+// frequency, which means the peak itself is a harmonic
+const fundamentalOf = (peak: SpectrumPeak, peaks: SpectrumPeak[]): SpectrumPeak => {
+  for (const divisor of [3, 2]) {
+    const match = peaks.find(other =>
+      Math.hypot(other.u - peak.u / divisor, other.v - peak.v / divisor) <= 1.5 &&
+      other.magnitude >= SUBHARMONIC_STRENGTH * peak.magnitude
+    );
+    if (match) return match;
+  }
+  return peak;
+};
+
+// The strongest peak and the strongest one in a clearly different
+// direction, each reduced to its fundamental
+const findLattice = (peaks: SpectrumPeak[]): SpectrumPeak[] => {
+  if (peaks.length === 0) return [];
+
+  const first = fundamentalOf(peaks[0], peaks);
+  const second = peaks.find(peak => {
+    const difference = Math.abs(peak.angle - first.angle) % 180;
+    return difference >= MIN_LATTICE_ANGLE && difference <= 180 - MIN_LATTICE_ANGLE;
+  });
+
+  return second ? [first, fundamentalOf(second, peaks)] : [first];
+};
+
+export const computeSpectrum2D = (
+  image: RasterImage,
+  options: Spectrum2DOptions = DEFAULT_SPECTRUM_2D_OPTIONS
+): Spectrum2D | null => {
+  const width = largestPowerOfTwo(Math.min(image.width, options.maxSize));
+  const height = largestPowerOfTwo(Math.min(image.height, options.maxSize));
+  if (width < 2 * MIN_PEAK_CYCLES || height < 2 * MIN_PEAK_CYCLES) return null;
+
+  const magnitudes = magnitudeSpectrum(derivativeImage(image, width, height, options.windowed), width, height);
+  const peaks = findSpectrumPeaks(magnitudes, width, height);
+
+  return {
+    width,
+    height,
+    windowed: options.windowed,
+    heatmap: renderHeatmap(magnitudes, width, height),
+    peaks,
+    lattice: findLattice(peaks)
+  };
+};
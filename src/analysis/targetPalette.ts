@@ -0,0 +1,166 @@
+import { deltaE, Lab, rgbToLab } from './color';
+import { RasterImage } from './gridDetection';
+import { collectColors, colorKey, PaletteEntry } from './palette';
+
+// Snapping a reconstructed sprite to a fixed palette, for projects that draw
+// everything with a locked set of colors. Every color is replaced by the
+// perceptually nearest palette entry.
+
+export interface TargetPalette {
+  id: string; // Built-ins use a short slug, uploaded palettes 'custom:<name>'
+  name: string;
+  colors: [number, number, number][];
+}
+
+export interface PaletteSnapOptions {
+  palette: TargetPalette;
+  preserveDither: boolean; // Keep alternating colors apart instead of snapping both to one entry
+}
+
+// '#1d2b53' or '1D2B53' to RGB; null for anything else
+export const hexToRgb = (hex: string): [number, number, number] | null => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const builtIn = (id: string, name: string, hexColors: string): TargetPalette => ({
+  id,
+  name,
+  colors: hexColors.split(/\s+/).filter(Boolean).map(hex => hexToRgb(hex) as [number, number, number])
+});
+
+export const BUILT_IN_PALETTES: TargetPalette[] = [
+  builtIn('pico-8', 'PICO-8', `
+    000000 1d2b53 7e2553 008751 ab5236 5f574f c2c3c7 fff1e8
+    ff004d ffa300 ffec27 00e436 29adff 83769c ff77a8 ffccaa
+  `),
+  // The 2C02 palette without its repeated blacks
+  builtIn('nes', 'NES', `
+    7c7c7c 0000fc 0000bc 4428bc 940084 a80020 a81000 881400 503000 007800 006800 005800 004058 000000
+    bcbcbc 0078f8 0058f8 6844fc d800cc e40058 f83800 e45c10 ac7c00 00b800 00a800 00a844 008888
+    f8f8f8 3cbcfc 6888fc 9878f8 f878f8 f85898 f87858 fca044 f8b800 b8f818 58d854 58f898 00e8d8 787878
+    fcfcfc a4e4fc b8b8f8 d8b8f8 f8b8f8 f8a4c0 f0d0b0 fce0a8 f8d878 d8f878 b8f8b8 b8f8d8 00fcfc f8d8f8
+  `),
+  builtIn('db16', 'DawnBringer 16', `
+    140c1c 442434 30346d 4e4a4e 854c30 346524 d04648 757161
+    597dce d27d2c 8595a1 6daa2c d2aa99 6dc2ca dad45e deeed6
+  `),
+  builtIn('db32', 'DawnBringer 32', `
+    000000 222034 45283c 663931 8f563b df7126 d9a066 eec39a
+    fbf236 99e550 6abe30 37946e 4b692f 524b24 323c39 3f3f74
+    306082 5b6ee1 639bff 5fcde4 cbdbfc ffffff 9badb7 847e87
+    696a6a 595652 76428a ac3232 d95763 d77bba 8f974a 8a6f30
+  `),
+  builtIn('endesga-32', 'Endesga 32', `
+    be4a2f d77643 ead4aa e4a672 b86f50 733e39 3e2731 a22633
+    e43b44 f77622 feae34 fee761 63c74d 3e8948 265c42 193c3e
+    124e89 0099db 2ce8f5 ffffff c0cbdc 8b9bb4 5a6988 3a4466
+    262b44 181425 ff0044 68386c b55088 f6757a e8b796 c28569
+  `)
+];
+
+// Two colors must meet across at least this many pixel edges to count as
+// drawn side by side on purpose, as in a dither or a shading ramp
+const MIN_NEIGHBOUR_EDGES = 4;
+
+// Neighbouring colors closer than this are near-duplicates left over from
+// sampling, and may snap to the same entry
+const MIN_DITHER_DELTA_E = 10;
+
+// Palette entries ordered from nearest to furthest
+const rankEntries = (lab: Lab, palette: Lab[]): number[] =>
+  palette.map((_, i) => i).sort((a, b) => deltaE(lab, palette[a]) - deltaE(lab, palette[b]));
+
+// How often each pair of distinct colors meets across a pixel edge, keyed
+// by the two color keys, most frequent pair first
+const neighbourPairs = (image: RasterImage): [number, number, number][] => {
+  const { width, height, data } = image;
+  const counts = new Map<string, [number, number, number]>();
+  const keyAt = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return data[i + 3] === 0 ? null : colorKey(data[i], data[i + 1], data[i + 2]);
+  };
+
+  const count = (a: number | null, b: number | null) => {
+    if (a === null || b === null || a === b) return;
+    const [low, high] = a < b ? [a, b] : [b, a];
+    const pair = counts.get(`${low},${high}`);
+    if (pair) {
+      pair[2]++;
+    } else {
+      counts.set(`${low},${high}`, [low, high, 1]);
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const key = keyAt(x, y);
+      if (x + 1 < width) count(key, keyAt(x + 1, y));
+      if (y + 1 < height) count(key, keyAt(x, y + 1));
+    }
+  }
+
+  return [...counts.values()].sort((a, b) => b[2] - a[2]);
+};
+
+// Repaint the image with the nearest palette entries. Transparent pixels and
+// alpha are left as they are.
+//
+// Snapping on its own can flatten a checkerboard dither, or a highlight and
+// its base color, into one entry when both are nearest to it. With
+// preserveDither, of two such colors that sit next to each other in the
+// sprite the one further from the shared entry moves to its next nearest,
+// as long as that costs no more than the contrast it keeps.
+export const snapToPalette = (image: RasterImage, options: PaletteSnapOptions): RasterImage => {
+  const { colors } = options.palette;
+  if (colors.length === 0) return image;
+
+  const paletteLab = colors.map(([r, g, b]) => rgbToLab(r, g, b));
+  const entries = new Map<number, PaletteEntry>();
+  for (const entry of collectColors(image)) {
+    entries.set(colorKey(...entry.rgb), entry);
+  }
+
+  const ranking = new Map<number, number[]>();
+  const mapping = new Map<number, number>();
+  entries.forEach((entry, key) => {
+    ranking.set(key, rankEntries(entry.lab, paletteLab));
+    mapping.set(key, ranking.get(key)![0]);
+  });
+
+  if (options.preserveDither && colors.length > 1) {
+    const moved = new Set<number>();
+    for (const [a, b, edges] of neighbourPairs(image)) {
+      if (edges < MIN_NEIGHBOUR_EDGES) break;
+      const shared = mapping.get(a)!;
+      if (mapping.get(b) !== shared) continue;
+
+      const contrast = deltaE(entries.get(a)!.lab, entries.get(b)!.lab);
+      if (contrast < MIN_DITHER_DELTA_E) continue;
+
+      // Move whichever the shared entry represents worse, unless it already moved once
+      const [first, second] = [a, b].sort((x, y) =>
+        deltaE(entries.get(y)!.lab, paletteLab[shared]) - deltaE(entries.get(x)!.lab, paletteLab[shared]));
+      const key = moved.has(first) ? second : first;
+      if (moved.has(key)) continue;
+
+      const lab = entries.get(key)!.lab;
+      const alternative = ranking.get(key)!.find(index => index !== shared)!;
+      if (deltaE(lab, paletteLab[alternative]) - deltaE(lab, paletteLab[shared]) > contrast) continue;
+
+      mapping.set(key, alternative);
+      moved.add(key);
+    }
+  }
+
+  const data = new Uint8ClampedArray(image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const index = mapping.get(colorKey(data[i], data[i + 1], data[i + 2]));
+    if (index !== undefined) data.set(colors[index], i);
+  }
+
+  return { width: image.width, height: image.height, data };
+};
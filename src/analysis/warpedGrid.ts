@@ -0,0 +1,428 @@
+import {
+  aggregateCell,
+  Axis,
+  CellBreakdown,
+  colorAgreement,
+  DEFAULT_SAMPLING_OPTIONS,
+  describeCellRegion,
+  GridGeometry,
+  innerCellPixels,
+  PixelSample,
+  RasterImage,
+  SamplingOptions
+} from './gridDetection';
+import { compareImages, ReconstructionComparison, renderDiffImage } from './quality';
+import { renderPixelArt } from './reconstruction';
+
+// Non-uniform grids. Generated "pixel art" rarely keeps one cell size: cells
+// wobble between a few source pixels, so one global stride drifts off the
+// real cells across the image. Here every boundary is placed on an actual
+// edge, starting from the uniform grid, and is measured separately in bands
+// across the image so it can bend.
+
+// 'uniform' samples the detected stride and offset, 'warped' the boundaries found along the edges
+export type GridMode = 'uniform' | 'warped';
+
+// Cell boundaries along one axis. A boundary at b starts the cell that
+// contains pixel b; the first and last boundaries close the outer cells.
+export interface AxisBoundaries {
+  bandCenters: number[]; // Midpoints of the bands along the other axis
+  positions: number[][]; // positions[k][band]: where boundary k lies in each band
+}
+
+export interface WarpedGrid {
+  columns: AxisBoundaries; // Vertical boundaries, positions along x
+  rows: AxisBoundaries; // Horizontal boundaries, positions along y
+}
+
+// Cells may be this fraction narrower or wider than the stride
+const WARP_TOLERANCE = 0.5;
+// Cost of every boundary while measuring the cell width, in units of the
+// mean edge strength, so boundaries only go where an edge pays for them
+const WARP_BOUNDARY_COST = 0.5;
+// Cost of a cell off the measured width by the full tolerance, in the same units
+const WARP_SPACING_PENALTY = 1;
+// Widest cell the width measurement allows, as a multiple of the uniform stride
+const WARP_MEASURE_SPAN = 4;
+// Cells per band along the other axis
+const WARP_BAND_CELLS = 8;
+// Furthest a band may move a boundary, as a fraction of the stride
+const WARP_LOCAL_SHIFT = 0.25;
+
+// Absolute grayscale differences between neighbouring pixels along an axis,
+// for every line across it. Entry i of a line sits between pixels i and i + 1.
+const edgeMap = (image: RasterImage, axis: Axis): { values: Float32Array; length: number; lines: number } => {
+  const { width, height, data } = image;
+  const gray = (x: number, y: number) => {
+    const index = (y * width + x) * 4;
+    return (data[index] + data[index + 1] + data[index + 2]) / 3;
+  };
+
+  const length = (axis === 'x' ? width : height) - 1;
+  const lines = axis === 'x' ? height : width;
+  const values = new Float32Array(Math.max(0, length) * lines);
+  for (let line = 0; line < lines; line++) {
+    for (let i = 0; i < length; i++) {
+      values[line * length + i] = axis === 'x'
+        ? Math.abs(gray(i + 1, line) - gray(i, line))
+        : Math.abs(gray(line, i + 1) - gray(line, i));
+    }
+  }
+
+  return { values, length, lines };
+};
+
+// Edge strength at each boundary position 0..length over a range of lines,
+// relative to its mean so thresholds don't depend on contrast
+const edgeProfile = (edges: ReturnType<typeof edgeMap>, from: number, to: number): Float64Array | null => {
+  const profile = new Float64Array(edges.length + 2);
+  let total = 0;
+  for (let line = from; line < to; line++) {
+    for (let i = 0; i < edges.length; i++) {
+      // Derivative i sits on the boundary at i + 1
+      profile[i + 1] += edges.values[line * edges.length + i];
+      total += edges.values[line * edges.length + i];
+    }
+  }
+
+  if (total === 0) return null;
+
+  const mean = total / edges.length;
+  return profile.map(value => value / mean);
+};
+
+// Boundaries of a uniform grid, closing the outer cells at the image edges
+const uniformBoundaries = (size: number, stride: number, offset: number): number[] => {
+  const boundaries: number[] = [];
+  for (let k = 0; (k + offset) * stride < size; k++) {
+    boundaries.push(Math.ceil((k + offset) * stride - 0.5));
+  }
+  return closeOuterCells(boundaries, size, stride);
+};
+
+// Add the image edges as outer boundaries when the partial cells they close
+// are at least half a cell wide, and drop boundaries too close to them
+const closeOuterCells = (boundaries: number[], size: number, stride: number): number[] => {
+  const inner = boundaries.filter(position => position > 0 && position < size);
+  if (inner.length === 0) return [0, size];
+
+  const result = inner[0] >= stride / 2 ? [0, ...inner] : inner;
+  if (size - inner[inner.length - 1] >= stride / 2) result.push(size);
+  return result;
+};
+
+// Best chain of boundaries along the profile: each boundary scores its edge
+// strength, less `boundaryCost` and a penalty, weighted by `spacingWeight`,
+// for how far its cell is from the stride. Dynamic programming over
+// boundary positions with cell widths between the given limits.
+const chainBoundaries = (
+  profile: Float64Array,
+  size: number,
+  stride: number,
+  minWidth: number,
+  maxWidth: number,
+  boundaryCost: number,
+  spacingWeight: number
+): number[] => {
+  const penalty = (width: number) => spacingWeight * ((width - stride) / (stride * WARP_TOLERANCE)) ** 2;
+
+  const best = new Float64Array(size).fill(-Infinity);
+  const previous = new Int32Array(size).fill(-1);
+  for (let t = 1; t < size; t++) {
+    // The first boundary can start anywhere within one cell of the edge
+    if (t <= maxWidth) best[t] = profile[t] - boundaryCost;
+    for (let width = minWidth; width <= maxWidth && t - width >= 1; width++) {
+      const score = best[t - width] + profile[t] - boundaryCost - penalty(width);
+      if (score > best[t]) {
+        best[t] = score;
+        previous[t] = t - width;
+      }
+    }
+  }
+
+  // The last boundary has to be within one cell of the far edge
+  let end = -1;
+  for (let t = Math.max(1, size - maxWidth); t < size; t++) {
+    if (end < 0 || best[t] > best[end]) end = t;
+  }
+
+  const boundaries: number[] = [];
+  for (let t = end; t >= 1; t = previous[t]) {
+    boundaries.unshift(t);
+  }
+  return boundaries;
+};
+
+// Move each boundary onto the strongest nearby edge of a band's profile,
+// keeping the boundaries in order. Weak edges leave it where it was.
+const shiftToBand = (global: number[], profile: Float64Array, size: number, stride: number): number[] => {
+  const reach = Math.max(1, Math.round(stride * WARP_LOCAL_SHIFT));
+  const shifted: number[] = [];
+
+  for (let k = 0; k < global.length; k++) {
+    const position = global[k];
+    const low = k > 0 ? shifted[k - 1] + 1 : 0;
+    if (position <= 0 || position >= size) {
+      shifted.push(Math.max(position, low));
+      continue;
+    }
+
+    let best = Math.max(position, low);
+    const from = Math.max(1, low, position - reach);
+    const to = Math.min(size - 1, Math.max(from, position + reach));
+    for (let t = from; t <= to; t++) {
+      const closer = Math.abs(t - position) < Math.abs(best - position);
+      if (profile[t] > profile[best] || (profile[t] === profile[best] && closer)) best = t;
+    }
+    // Only move for an edge at least as strong as the average
+    shifted.push(profile[best] >= 1 ? best : Math.max(position, low));
+  }
+
+  return shifted;
+};
+
+// Typical cell width along a profile, from a chain with no spacing
+// preference and wide limits, which puts boundaries wherever the edges pay
+// for them. The limits allow for the uniform stride being a harmonic of the
+// real one, and the median skips the wide cells it makes of flat areas.
+const measureCellWidth = (profile: Float64Array, size: number, stride: number): number | null => {
+  const maxWidth = Math.max(2, Math.ceil(stride * WARP_MEASURE_SPAN));
+  const rough = chainBoundaries(profile, size, stride, 1, maxWidth, WARP_BOUNDARY_COST, 0);
+  const widths = rough.slice(1).map((position, k) => position - rough[k]).sort((a, b) => a - b);
+  return widths.length > 0 ? widths[Math.floor(widths.length / 2)] : null;
+};
+
+// Boundaries placed on the edges, preferring cells of the measured mean width
+const edgeBoundaries = (profile: Float64Array, size: number, meanWidth: number): number[] => {
+  const minWidth = Math.max(1, Math.floor(meanWidth * (1 - WARP_TOLERANCE)));
+  const maxWidth = Math.max(minWidth, Math.ceil(meanWidth * (1 + WARP_TOLERANCE)));
+  return closeOuterCells(chainBoundaries(profile, size, meanWidth, minWidth, maxWidth, 0, WARP_SPACING_PENALTY), size, meanWidth);
+};
+
+const median3 = (a: number, b: number, c: number) => Math.max(Math.min(a, b), Math.min(Math.max(a, b), c));
+
+// Boundaries along one axis, first over the whole image and then per band
+const axisBoundaries = (
+  image: RasterImage,
+  axis: Axis,
+  stride: number,
+  offset: number,
+  crossStride: number
+): AxisBoundaries => {
+  const edges = edgeMap(image, axis);
+  const size = edges.length + 1;
+
+  const bandCount = Math.max(1, Math.round(edges.lines / (crossStride * WARP_BAND_CELLS)));
+  const bandCenters: number[] = [];
+  const bandProfiles: (Float64Array | null)[] = [];
+  for (let band = 0; band < bandCount; band++) {
+    const from = Math.floor((band * edges.lines) / bandCount);
+    const to = Math.floor(((band + 1) * edges.lines) / bandCount);
+    bandCenters.push((from + to) / 2);
+    bandProfiles.push(edgeProfile(edges, from, to));
+  }
+
+  // The uniform stride is unreliable when cells wobble, so the cell width is
+  // measured within each band, where a bending boundary stays sharp
+  const widths = bandProfiles
+    .map(profile => profile && measureCellWidth(profile, size, stride))
+    .filter((width): width is number => width !== null)
+    .sort((a, b) => a - b);
+  const meanWidth = widths.length > 0 ? widths[Math.floor(widths.length / 2)] : stride;
+
+  // Chain the boundaries in the middle band, then follow them band by band
+  // towards both ends so they can drift any distance across the image
+  const middle = Math.floor(bandCount / 2);
+  const middleProfile = bandProfiles[middle];
+  const bands: number[][] = new Array(bandCount);
+  bands[middle] = middleProfile
+    ? edgeBoundaries(middleProfile, size, meanWidth)
+    : uniformBoundaries(size, stride, offset);
+  const follow = (band: number, from: number) => {
+    const profile = bandProfiles[band];
+    bands[band] = profile ? shiftToBand(bands[from], profile, size, meanWidth) : bands[from];
+  };
+  for (let band = middle + 1; band < bandCount; band++) follow(band, band - 1);
+  for (let band = middle - 1; band >= 0; band--) follow(band, band + 1);
+
+  // A median over neighbouring bands keeps one noisy band from kinking a boundary
+  const positions = bands[middle].map((_, k) => bands.map((band, j) =>
+    bandCount < 3 ? band[k] : median3(bands[Math.max(0, j - 1)][k], band[k], bands[Math.min(bandCount - 1, j + 1)][k])
+  ));
+
+  return { bandCenters, positions };
+};
+
+// Find the cell boundaries along the edges, starting from a uniform grid
+export const detectWarpedGrid = (image: RasterImage, geometry: GridGeometry): WarpedGrid => ({
+  columns: axisBoundaries(image, 'x', geometry.strideX, geometry.offsetX, geometry.strideY),
+  rows: axisBoundaries(image, 'y', geometry.strideY, geometry.offsetY, geometry.strideX)
+});
+
+// Position of boundary k at a point along the other axis, interpolated
+// between the band centers
+export const boundaryAt = ({ bandCenters, positions }: AxisBoundaries, k: number, along: number): number => {
+  const band = positions[k];
+  if (along <= bandCenters[0]) return band[0];
+
+  for (let j = 1; j < bandCenters.length; j++) {
+    if (along <= bandCenters[j]) {
+      const fraction = (along - bandCenters[j - 1]) / (bandCenters[j] - bandCenters[j - 1]);
+      return band[j - 1] + (band[j] - band[j - 1]) * fraction;
+    }
+  }
+
+  return band[band.length - 1];
+};
+
+const meanPosition = (boundaries: AxisBoundaries, k: number) =>
+  boundaries.positions[k].reduce((sum, position) => sum + position, 0) / boundaries.positions[k].length;
+
+// Number of cells along the columns (x) and rows (y)
+export const warpedGridSize = (grid: WarpedGrid): { width: number; height: number } => ({
+  width: Math.max(0, grid.columns.positions.length - 1),
+  height: Math.max(0, grid.rows.positions.length - 1)
+});
+
+// Bounds of one cell as left, top, right, bottom (right and bottom
+// exclusive). Cells are treated as rectangles at their own position, which
+// holds as long as the boundaries bend slowly.
+export const warpedCellBounds = (grid: WarpedGrid, gridX: number, gridY: number): [number, number, number, number] => {
+  const approximateX = (meanPosition(grid.columns, gridX) + meanPosition(grid.columns, gridX + 1)) / 2;
+  const top = Math.round(boundaryAt(grid.rows, gridY, approximateX));
+  const bottom = Math.max(top + 1, Math.round(boundaryAt(grid.rows, gridY + 1, approximateX)));
+  const centerY = (top + bottom) / 2;
+  const left = Math.round(boundaryAt(grid.columns, gridX, centerY));
+  const right = Math.max(left + 1, Math.round(boundaryAt(grid.columns, gridX + 1, centerY)));
+  return [left, top, right, bottom];
+};
+
+// Pixel range [start, end) of a cell span shrunk by `margin` of its width on
+// both sides, falling back to the center pixel like the uniform grid does
+const innerSpan = (start: number, end: number, margin: number, center: number): [number, number] => {
+  const width = end - start;
+  const innerStart = Math.ceil(start + margin * width - 0.5);
+  const innerEnd = Math.ceil(start + (1 - margin) * width - 0.5);
+  return innerEnd > innerStart ? [innerStart, innerEnd] : [center, center + 1];
+};
+
+// Read one color per warped cell, like sampleGrid does for a uniform one
+export const sampleWarpedGrid = (
+  image: RasterImage,
+  grid: WarpedGrid,
+  options: SamplingOptions = DEFAULT_SAMPLING_OPTIONS
+): PixelSample[] => {
+  const { width, height } = warpedGridSize(grid);
+  const samples: PixelSample[] = [];
+
+  for (let gridY = 0; gridY < height; gridY++) {
+    for (let gridX = 0; gridX < width; gridX++) {
+      const [left, top, right, bottom] = warpedCellBounds(grid, gridX, gridY);
+      const centerX = Math.min(image.width - 1, Math.floor((left + right) / 2));
+      const centerY = Math.min(image.height - 1, Math.floor((top + bottom) / 2));
+
+      const region = innerCellPixels(
+        image,
+        innerSpan(left, right, options.margin, centerX),
+        innerSpan(top, bottom, options.margin, centerY)
+      );
+      const centerIndex = (centerY * image.width + centerX) * 4;
+      const centerColor: [number, number, number, number] = [
+        image.data[centerIndex],
+        image.data[centerIndex + 1],
+        image.data[centerIndex + 2],
+        image.data[centerIndex + 3]
+      ];
+      const color = aggregateCell(region, centerColor, options.aggregation);
+
+      samples.push({ x: centerX, y: centerY, gridX, gridY, color, agreement: colorAgreement(region, color) });
+    }
+  }
+
+  return samples;
+};
+
+// Index of the cell containing a position, given the boundaries at that
+// point, clamped to the outer cells
+const cellIndex = (boundaries: number[], position: number): number => {
+  let cell = 0;
+  while (cell < boundaries.length - 2 && position >= boundaries[cell + 1]) cell++;
+  return cell;
+};
+
+// Warped cell containing an image pixel, or null outside the grid
+export const warpedCellAt = (grid: WarpedGrid, x: number, y: number): { gridX: number; gridY: number } | null => {
+  const rows = grid.rows.positions.map((_, k) => Math.round(boundaryAt(grid.rows, k, x)));
+  const columns = grid.columns.positions.map((_, k) => Math.round(boundaryAt(grid.columns, k, y)));
+  if (rows.length < 2 || columns.length < 2) return null;
+  if (y < rows[0] || y >= rows[rows.length - 1] || x < columns[0] || x >= columns[columns.length - 1]) return null;
+  return { gridX: cellIndex(columns, x), gridY: cellIndex(rows, y) };
+};
+
+// Color counts of one warped cell, as describeCell gives for a uniform grid
+export const describeWarpedCell = (
+  image: RasterImage,
+  grid: WarpedGrid,
+  gridX: number,
+  gridY: number,
+  margin: number
+): CellBreakdown | null => {
+  const { width, height } = warpedGridSize(grid);
+  if (gridX < 0 || gridY < 0 || gridX >= width || gridY >= height) return null;
+
+  const [left, top, right, bottom] = warpedCellBounds(grid, gridX, gridY);
+  const centerX = Math.floor((left + right) / 2);
+  const centerY = Math.floor((top + bottom) / 2);
+  const [innerLeft, innerRight] = innerSpan(left, right, margin, centerX);
+  const [innerTop, innerBottom] = innerSpan(top, bottom, margin, centerY);
+  return describeCellRegion(
+    image,
+    gridX,
+    gridY,
+    [left, top, Math.min(right, image.width), Math.min(bottom, image.height)],
+    [innerLeft, innerTop, innerRight, innerBottom]
+  );
+};
+
+// Scale a sprite sampled on a warped grid back up, reading every pixel from
+// the cell its position falls in
+export const upscaleWarped = (pixelArt: RasterImage, grid: WarpedGrid, width: number, height: number): RasterImage => {
+  // Row of every pixel, from the horizontal boundaries at its column
+  const rowOf = new Int32Array(width * height);
+  for (let x = 0; x < width; x++) {
+    const rows = grid.rows.positions.map((_, k) => boundaryAt(grid.rows, k, x));
+    for (let y = 0, cell = 0; y < height; y++) {
+      while (cell < rows.length - 2 && y + 0.5 >= rows[cell + 1]) cell++;
+      rowOf[y * width + x] = Math.min(cell, pixelArt.height - 1);
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const columns = grid.columns.positions.map((_, k) => boundaryAt(grid.columns, k, y));
+    for (let x = 0, cell = 0; x < width; x++) {
+      while (cell < columns.length - 2 && x + 0.5 >= columns[cell + 1]) cell++;
+      const source = (rowOf[y * width + x] * pixelArt.width + Math.min(cell, pixelArt.width - 1)) * 4;
+      data.set(pixelArt.data.subarray(source, source + 4), (y * width + x) * 4);
+    }
+  }
+
+  return { width, height, data };
+};
+
+// Re-upscale the samples taken on a warped grid and compare them with the image
+export const compareWarpedReconstruction = (
+  image: RasterImage,
+  samples: PixelSample[],
+  grid: WarpedGrid
+): ReconstructionComparison | null => {
+  if (samples.length === 0) return null;
+
+  const upscaled = upscaleWarped(renderPixelArt(samples), grid, image.width, image.height);
+
+  return {
+    score: compareImages(image, upscaled),
+    upscaled,
+    diff: renderDiffImage(image, upscaled)
+  };
+};
@@ -0,0 +1,73 @@
+import {
+  AnalysisOptions,
+  AnalysisStage,
+  EdgeSignal,
+  GridGeometry,
+  ImageAnalysisResult,
+  PixelSample,
+  SamplingOptions
+} from './gridDetection';
+import { DeskewResult } from './deskew';
+import { GridRefinement, ReconstructionComparison } from './quality';
+import { Spectrum2D, Spectrum2DOptions } from './spectrum2d';
+import { GridMode, WarpedGrid } from './warpedGrid';
+
+// Messages from the page to the analysis worker. The image is sent once with
+// 'setImage' (its buffer transferred) and reused by later requests. An
+// analysis with 'deskew' set runs on a straightened copy and returns it; the
+// worker keeps the image it was sent until the page sends another. Requests
+// that sample take a grid mode; in 'warped' mode the uniform grid is only the
+// starting point for the boundaries found along the edges.
+export type AnalysisWorkerRequest =
+  | { type: 'setImage'; width: number; height: number; buffer: ArrayBuffer }
+  | { type: 'analyze'; requestId: number; options: AnalysisOptions; deskew: boolean; gridMode: GridMode }
+  | {
+      type: 'sample';
+      requestId: number;
+      strideX: number;
+      strideY: number;
+      offsetX: number;
+      offsetY: number;
+      options: SamplingOptions;
+      gridMode: GridMode;
+    }
+  | {
+      type: 'refine';
+      requestId: number;
+      geometry: GridGeometry;
+      options: SamplingOptions;
+      edgeSignal: EdgeSignal;
+      gridMode: GridMode;
+    }
+  | { type: 'spectrum2d'; requestId: number; options: Spectrum2DOptions };
+
+// Messages from the analysis worker back to the page. Samples taken in
+// 'warped' mode come with the grid they were taken on.
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; requestId: number; stage: AnalysisStage; fraction: number }
+  | {
+      type: 'analysis';
+      requestId: number;
+      result: ImageAnalysisResult;
+      comparison: ReconstructionComparison | null;
+      deskew: DeskewResult | null;
+      warpedGrid: WarpedGrid | null;
+    }
+  | {
+      type: 'samples';
+      requestId: number;
+      samples: PixelSample[];
+      comparison: ReconstructionComparison | null;
+      warpedGrid: WarpedGrid | null;
+    }
+  | { type: 'refineProgress'; requestId: number; fraction: number; best: GridGeometry; mse: number }
+  | {
+      type: 'refined';
+      requestId: number;
+      refinement: GridRefinement;
+      samples: PixelSample[];
+      comparison: ReconstructionComparison | null;
+      warpedGrid: WarpedGrid | null;
+    }
+  | { type: 'spectrum2d'; requestId: number; spectrum: Spectrum2D | null }
+  | { type: 'error'; requestId: number; message: string };
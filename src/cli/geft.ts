@@ -0,0 +1,501 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { basename, dirname, extname, join, relative, resolve, sep } from 'path';
+import { parseArgs } from 'util';
+import {
+  CellAggregation,
+  EdgeSignal,
+  GridCandidate,
+  LineSamplingOptions,
+  LineSamplingStrategy,
+  PeakInterpolation,
+  PeakSearchOptions,
+  PitchDetectionMethod,
+  PitchDetector,
+  SamplingOptions,
+  SmoothingKernel
+} from '../analysis/gridDetection';
+import { deskewImage } from '../analysis/deskew';
+import { PaletteReductionMethod, PaletteReductionOptions } from '../analysis/palette';
+import { paletteFromImage, parsePaletteFile } from '../analysis/paletteFiles';
+import { BUILT_IN_PALETTES, PaletteSnapOptions, TargetPalette } from '../analysis/targetPalette';
+import { processImage, readPng, writePng } from '../analysis/node';
+
+// geft: batch-downscale a folder of upscaled pixel art to its native resolution
+
+const USAGE = `Usage: geft <file|directory|glob>... [options]
+
+Detects the native pixel grid of each PNG, writes the reconstructed
+native-resolution image and prints a JSON report.
+
+Options:
+  -o, --out <dir>           Output directory (default: geft-output)
+      --overwrite           Allow an output directory that holds input images, replacing them
+  -t, --transparent         Also write <name>.transparent.png with the edge background removed
+      --trim                Trim the transparent version to its content plus a 1-pixel margin
+  -r, --report <file>       Write the JSON report to a file instead of stdout
+      --deskew              Straighten rotated or skewed grids before detection
+      --jpeg                Denoise and smooth out JPEG block edges before detection
+      --bilateral           With --jpeg, also apply an edge-preserving bilateral filter
+      --edge-signal <s>     Edge signal: luminance, channel-max, channel-sum, lab or alpha (default: luminance)
+      --method <m>          Pitch detection: peak, harmonic-product, autocorrelation or auto (default: peak)
+      --interpolation <m>   Peak interpolation: none, parabolic or gaussian (default: parabolic)
+      --zero-padding <n>    Zero-padding factor for the FFT: 1, 2, 4 or 8 (default: 1)
+      --smoothing <k>       Spectrum smoothing: gaussian, median or none (default: gaussian)
+      --sigma <n>           Gaussian sigma, in frequency units (default: 2)
+      --kernel-size <n>     Smoothing kernel or median window width, in frequency units (default: 7)
+      --min-pitch <px>      Smallest pixel pitch searched (default: 2)
+      --max-pitch <px>      Largest pixel pitch searched (default: no limit)
+      --low-cutoff <n>      FFT frequencies below this are never picked, to skip DC (default: 5)
+      --sampling <s>        Line selection: random, even, all or content (default: random)
+      --lines <n>           Lines analyzed per axis (default: 30)
+      --seed <n>            Seed for random and content sampling (default: 1)
+      --aggregation <m>     Cell color: center, mode, median or trimmed-mean (default: center)
+      --margin <f>          Fraction of each cell edge ignored when aggregating, 0-0.45 (default: 0.25)
+      --palette <m>         Palette reduction: none, kmeans, median-cut or merge (default: none)
+      --colors <n>          Target color count for kmeans and median-cut (default: 16)
+      --max-delta-e <n>     Largest perceptual difference merged by merge (default: 8)
+      --target-palette <p>  Snap colors to a palette: ${BUILT_IN_PALETTES.map(palette => palette.id).join(', ')},
+                            or a .gpl, .txt, .pal, .hex or .png file
+      --preserve-dither     With --target-palette, keep alternating colors apart
+  -h, --help                Show this help
+`;
+
+interface CandidateReport {
+  stride: number;
+  offset: number;
+  score: number;
+}
+
+interface FileReport {
+  file: string;
+  output?: string;
+  transparentOutput?: string;
+  sourceWidth?: number;
+  sourceHeight?: number;
+  rotation?: number; // Degrees clockwise, with --deskew
+  skew?: number;
+  deskewed?: boolean;
+  width?: number;
+  height?: number;
+  strideX?: { stride: number; low: number; high: number };
+  strideY?: { stride: number; low: number; high: number };
+  offsetX?: number;
+  offsetY?: number;
+  confidenceX?: number;
+  confidenceY?: number;
+  methodX?: PitchDetector;
+  methodY?: PitchDetector;
+  candidatesX?: CandidateReport[];
+  candidatesY?: CandidateReport[];
+  jpegBlockPeak?: boolean; // The spectrum shows the 8-pixel JPEG block period; try --jpeg
+  colorCount?: number;
+  meanAgreement?: number;
+  psnr?: number | null; // null for an exact match, which JSON can't write as Infinity
+  ssim?: number;
+  lineSampling?: LineSamplingOptions;
+  error?: string;
+}
+
+const isGlob = (pattern: string) => /[*?]/.test(pattern);
+
+// Translate a glob into a regular expression over '/'-separated paths.
+// Supports '**' for any number of directories, '*' and '?'.
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const followedBySlash = pattern[i + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      i += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const listFiles = (directory: string, recursive: boolean): string[] => {
+  const files: string[] = [];
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) files.push(...listFiles(path, true));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+};
+
+const isPng = (path: string) => extname(path).toLowerCase() === '.png';
+
+interface InputFile {
+  file: string; // Absolute path
+  outputName: string; // Path under the output directory, without the extension
+}
+
+// Expand each argument into the PNG files it names. Files found inside a
+// directory or glob keep their path below it in the output directory.
+// Earlier output (transparent versions, and anything in an output directory
+// below the one searched) is skipped so a second run doesn't process its
+// own results.
+const resolveInputs = (patterns: string[], outDir: string): { inputs: InputFile[]; roots: string[] } => {
+  const inputs = new Map<string, InputFile>();
+  const roots = new Set<string>();
+  const isOutput = (file: string, root: string) =>
+    file.toLowerCase().endsWith('.transparent.png') || (resolve(root) !== outDir && file.startsWith(outDir + sep));
+  const add = (file: string, root: string) => {
+    const path = resolve(file);
+    const relativePath = relative(resolve(root), path);
+    inputs.set(path, { file: path, outputName: relativePath.slice(0, -extname(relativePath).length) });
+  };
+
+  for (const pattern of patterns) {
+    if (isGlob(pattern)) {
+      const normalized = pattern.split(sep).join('/');
+      const segments = normalized.split('/');
+      const firstWildcard = segments.findIndex(segment => isGlob(segment));
+      const root = segments.slice(0, firstWildcard).join('/') || '.';
+      const matcher = globToRegExp(normalized);
+
+      if (!existsSync(root)) continue;
+      roots.add(resolve(root));
+
+      for (const file of listFiles(root, true)) {
+        const candidate = (root === '.' ? relative('.', file) : file).split(sep).join('/');
+        if (matcher.test(candidate) && isPng(file) && !isOutput(resolve(file), root)) add(file, root);
+      }
+    } else if (existsSync(pattern) && statSync(pattern).isDirectory()) {
+      roots.add(resolve(pattern));
+      for (const file of listFiles(pattern, false)) {
+        if (isPng(file) && !isOutput(resolve(file), pattern)) add(file, pattern);
+      }
+    } else if (existsSync(pattern)) {
+      roots.add(dirname(resolve(pattern)));
+      add(pattern, dirname(pattern));
+    } else {
+      console.error(`geft: ${pattern}: no such file or directory`);
+    }
+  }
+
+  return { inputs: [...inputs.values()].sort((a, b) => a.file.localeCompare(b.file)), roots: [...roots] };
+};
+
+// A built-in palette by id, or a palette file or swatch image
+const loadTargetPalette = (source: string): TargetPalette => {
+  const builtIn = BUILT_IN_PALETTES.find(palette => palette.id === source.toLowerCase());
+  if (builtIn) return builtIn;
+
+  if (!existsSync(source)) {
+    throw new Error(`Unknown target palette "${source}"`);
+  }
+  return isPng(source)
+    ? paletteFromImage(readPng(source), basename(source, extname(source)))
+    : parsePaletteFile(basename(source), readFileSync(source, 'utf8'));
+};
+
+const parseOptions = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'geft-output' },
+      overwrite: { type: 'boolean', default: false },
+      transparent: { type: 'boolean', short: 't', default: false },
+      trim: { type: 'boolean', default: false },
+      report: { type: 'string', short: 'r' },
+      deskew: { type: 'boolean', default: false },
+      'edge-signal': { type: 'string', default: 'luminance' },
+      jpeg: { type: 'boolean', default: false },
+      bilateral: { type: 'boolean', default: false },
+      method: { type: 'string', default: 'peak' },
+      interpolation: { type: 'string', default: 'parabolic' },
+      'zero-padding': { type: 'string', default: '1' },
+      smoothing: { type: 'string', default: 'gaussian' },
+      sigma: { type: 'string', default: '2' },
+      'kernel-size': { type: 'string', default: '7' },
+      'min-pitch': { type: 'string', default: '2' },
+      'max-pitch': { type: 'string' },
+      'low-cutoff': { type: 'string', default: '5' },
+      sampling: { type: 'string', default: 'random' },
+      lines: { type: 'string', default: '30' },
+      seed: { type: 'string', default: '1' },
+      aggregation: { type: 'string', default: 'center' },
+      margin: { type: 'string', default: '0.25' },
+      palette: { type: 'string', default: 'none' },
+      colors: { type: 'string', default: '16' },
+      'max-delta-e': { type: 'string', default: '8' },
+      'target-palette': { type: 'string' },
+      'preserve-dither': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  const method = values.method as PitchDetectionMethod;
+  if (!['peak', 'harmonic-product', 'autocorrelation', 'auto'].includes(method)) {
+    throw new Error(`Unknown detection method "${values.method}"`);
+  }
+
+  const interpolation = values.interpolation as PeakInterpolation;
+  if (!['none', 'parabolic', 'gaussian'].includes(interpolation)) {
+    throw new Error(`Unknown interpolation "${values.interpolation}"`);
+  }
+
+  const zeroPadding = parseInt(values['zero-padding'] as string, 10);
+  if (![1, 2, 4, 8].includes(zeroPadding)) {
+    throw new Error(`Zero-padding must be 1, 2, 4 or 8, got "${values['zero-padding']}"`);
+  }
+
+  const kernel = values.smoothing as SmoothingKernel;
+  if (!['gaussian', 'median', 'none'].includes(kernel)) {
+    throw new Error(`Unknown smoothing "${values.smoothing}"`);
+  }
+
+  const sigma = parseFloat(values.sigma as string);
+  if (isNaN(sigma) || sigma <= 0) {
+    throw new Error(`Sigma must be a positive number, got "${values.sigma}"`);
+  }
+
+  const size = parseFloat(values['kernel-size'] as string);
+  if (isNaN(size) || size < 1) {
+    throw new Error(`Kernel size must be at least 1, got "${values['kernel-size']}"`);
+  }
+
+  const minPitch = parseFloat(values['min-pitch'] as string);
+  if (isNaN(minPitch) || minPitch < 2) {
+    throw new Error(`Minimum pitch must be at least 2, got "${values['min-pitch']}"`);
+  }
+
+  const maxPitch = values['max-pitch'] === undefined ? null : parseFloat(values['max-pitch'] as string);
+  if (maxPitch !== null && (isNaN(maxPitch) || maxPitch <= minPitch)) {
+    throw new Error(`Maximum pitch must be greater than the minimum, got "${values['max-pitch']}"`);
+  }
+
+  const lowFrequencyCutoff = parseInt(values['low-cutoff'] as string, 10);
+  if (isNaN(lowFrequencyCutoff) || lowFrequencyCutoff < 1) {
+    throw new Error(`Low-frequency cutoff must be a positive integer, got "${values['low-cutoff']}"`);
+  }
+
+  const peakSearch: PeakSearchOptions = {
+    method,
+    interpolation,
+    zeroPadding,
+    smoothing: { kernel, sigma, size },
+    minPitch,
+    maxPitch,
+    lowFrequencyCutoff
+  };
+
+  const strategy = values.sampling as LineSamplingStrategy;
+  if (!['random', 'even', 'all', 'content'].includes(strategy)) {
+    throw new Error(`Unknown sampling strategy "${values.sampling}"`);
+  }
+
+  const lineCount = parseInt(values.lines as string, 10);
+  if (isNaN(lineCount) || lineCount < 1) {
+    throw new Error(`Line count must be a positive integer, got "${values.lines}"`);
+  }
+
+  const seed = parseInt(values.seed as string, 10);
+  if (isNaN(seed)) {
+    throw new Error(`Seed must be an integer, got "${values.seed}"`);
+  }
+
+  const lineSampling: LineSamplingOptions = { strategy, lineCount, seed };
+
+  const aggregation = values.aggregation as CellAggregation;
+  if (!['center', 'mode', 'median', 'trimmed-mean'].includes(aggregation)) {
+    throw new Error(`Unknown aggregation "${values.aggregation}"`);
+  }
+
+  const margin = parseFloat(values.margin as string);
+  if (isNaN(margin) || margin < 0 || margin > 0.45) {
+    throw new Error(`Margin must be between 0 and 0.45, got "${values.margin}"`);
+  }
+
+  const sampling: SamplingOptions = { aggregation, margin };
+
+  const paletteMethod = values.palette as PaletteReductionMethod;
+  if (!['none', 'kmeans', 'median-cut', 'merge'].includes(paletteMethod)) {
+    throw new Error(`Unknown palette reduction "${values.palette}"`);
+  }
+
+  const colorCount = parseInt(values.colors as string, 10);
+  if (isNaN(colorCount) || colorCount < 1) {
+    throw new Error(`Color count must be a positive integer, got "${values.colors}"`);
+  }
+
+  const mergeThreshold = parseFloat(values['max-delta-e'] as string);
+  if (isNaN(mergeThreshold) || mergeThreshold < 0) {
+    throw new Error(`Maximum ΔE must be a non-negative number, got "${values['max-delta-e']}"`);
+  }
+
+  const palette: PaletteReductionOptions = { method: paletteMethod, colorCount, mergeThreshold };
+
+  let targetPalette: PaletteSnapOptions | undefined;
+  if (values['target-palette'] !== undefined) {
+    targetPalette = {
+      palette: loadTargetPalette(values['target-palette'] as string),
+      preserveDither: values['preserve-dither'] as boolean
+    };
+  }
+
+  const edgeSignal = values['edge-signal'] as EdgeSignal;
+  if (!['luminance', 'channel-max', 'channel-sum', 'lab', 'alpha'].includes(edgeSignal)) {
+    throw new Error(`Unknown edge signal "${values['edge-signal']}"`);
+  }
+
+  return {
+    inputs: positionals,
+    outDir: values.out as string,
+    overwrite: values.overwrite as boolean,
+    transparent: values.transparent as boolean,
+    trim: values.trim as boolean,
+    reportPath: values.report as string | undefined,
+    deskew: values.deskew as boolean,
+    peakSearch,
+    lineSampling,
+    sampling,
+    edgeSignal,
+    palette,
+    targetPalette,
+    preprocessing: { enabled: values.jpeg as boolean, bilateral: values.bilateral as boolean },
+    help: values.help as boolean
+  };
+};
+
+const toCandidateReport = ({ stride, offset, score }: GridCandidate): CandidateReport => ({ stride, offset, score });
+
+const processFile = (
+  { file, outputName }: InputFile,
+  outDir: string,
+  options: ReturnType<typeof parseOptions>
+): FileReport => {
+  const image = readPng(file);
+  const deskew = options.deskew ? deskewImage(image) : null;
+  const result = processImage(deskew?.image ?? image, {
+    peakSearch: options.peakSearch,
+    lineSampling: options.lineSampling,
+    sampling: options.sampling,
+    edgeSignal: options.edgeSignal,
+    preprocessing: options.preprocessing,
+    palette: options.palette,
+    targetPalette: options.targetPalette,
+    transparency: options.transparent,
+    trim: options.trim
+  });
+
+  if (!result) {
+    return { file, error: 'No pixel grid detected' };
+  }
+
+  const samples = result.analysis.samples;
+  const output = join(outDir, `${outputName}.png`);
+  mkdirSync(dirname(output), { recursive: true });
+  writePng(output, result.pixelArt);
+
+  let transparentOutput: string | undefined;
+  if (result.transparentPixelArt) {
+    transparentOutput = join(outDir, `${outputName}.transparent.png`);
+    writePng(transparentOutput, result.transparentPixelArt);
+  }
+
+  return {
+    file,
+    output,
+    transparentOutput,
+    sourceWidth: image.width,
+    sourceHeight: image.height,
+    rotation: deskew?.estimate.rotation,
+    skew: deskew?.estimate.skew,
+    deskewed: options.deskew ? !!deskew?.image : undefined,
+    width: result.pixelArt.width,
+    height: result.pixelArt.height,
+    strideX: result.strideX,
+    strideY: result.strideY,
+    offsetX: result.offsetX,
+    offsetY: result.offsetY,
+    confidenceX: result.confidenceX,
+    confidenceY: result.confidenceY,
+    methodX: result.analysis.rowAnalysis.method,
+    methodY: result.analysis.columnAnalysis.method,
+    candidatesX: result.analysis.rowAnalysis.candidates.map(toCandidateReport),
+    candidatesY: result.analysis.columnAnalysis.candidates.map(toCandidateReport),
+    jpegBlockPeak: result.analysis.rowAnalysis.blockPeak || result.analysis.columnAnalysis.blockPeak,
+    colorCount: result.palette.length,
+    meanAgreement: samples.reduce((sum, sample) => sum + sample.agreement, 0) / samples.length,
+    psnr: isFinite(result.reconstruction.psnr) ? result.reconstruction.psnr : null,
+    ssim: result.reconstruction.ssim,
+    lineSampling: result.analysis.options.lineSampling
+  };
+};
+
+const main = (): number => {
+  let options: ReturnType<typeof parseOptions>;
+  try {
+    options = parseOptions();
+  } catch (error) {
+    console.error(`geft: ${error instanceof Error ? error.message : error}\n`);
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (options.help || options.inputs.length === 0) {
+    console.error(USAGE);
+    return options.help ? 0 : 2;
+  }
+
+  const outDir = resolve(options.outDir);
+  const { inputs: files, roots } = resolveInputs(options.inputs, outDir);
+  if (files.length === 0) {
+    console.error('geft: no PNG files matched');
+    return 1;
+  }
+
+  if (roots.includes(outDir) && !options.overwrite) {
+    console.error(`geft: the output directory ${relative('.', outDir) || '.'} holds input images, which would be overwritten; pass --overwrite to allow it`);
+    return 2;
+  }
+
+  // Two inputs with the same path below their directories would overwrite each other
+  const outputFiles = new Map<string, string>();
+  for (const { file, outputName } of files) {
+    const earlier = outputFiles.get(outputName);
+    if (earlier) {
+      console.error(`geft: ${relative('.', earlier)} and ${relative('.', file)} would both be written to ${relative('.', join(outDir, outputName))}.png`);
+      return 2;
+    }
+    outputFiles.set(outputName, file);
+  }
+
+  mkdirSync(outDir, { recursive: true });
+
+  const reports: FileReport[] = [];
+  files.forEach((input, index) => {
+    console.error(`[${index + 1}/${files.length}] ${relative('.', input.file)}`);
+    try {
+      reports.push(processFile(input, outDir, options));
+    } catch (error) {
+      reports.push({ file: input.file, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  const report = JSON.stringify(reports, null, 2);
+  if (options.reportPath) {
+    writeFileSync(options.reportPath, report + '\n');
+  } else {
+    console.log(report);
+  }
+
+  const failures = reports.filter(entry => entry.error).length;
+  if (failures > 0) {
+    console.error(`geft: ${failures} of ${files.length} files failed`);
+  }
+  return failures > 0 ? 1 : 0;
+};
+
+process.exitCode = main();
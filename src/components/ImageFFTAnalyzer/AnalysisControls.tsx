@@ -1,23 +1,64 @@
 import React from 'react';
 import LoadingSpinner from '../LoadingSpinner';
+import {
+  DEFAULT_PEAK_SEARCH_OPTIONS,
+  EdgeSignal,
+  LineSamplingOptions,
+  LineSamplingStrategy,
+  PEAK_SEARCH_LIMITS,
+  PeakInterpolation,
+  PeakSearchOptions,
+  PitchDetectionMethod,
+  SmoothingKernel,
+  SmoothingOptions
+} from '../../analysis/gridDetection';
+import { PreprocessingOptions } from '../../analysis/preprocessing';
+import { AnalysisProgress } from './hooks/useImageAnalysis';
+import NumberField from './NumberField';
 
 interface AnalysisControlsProps {
   imageData: ImageData | null;
   processing: boolean;
+  progress: AnalysisProgress | null;
   performFFT: (imgData?: ImageData) => void;
-  dominantFrequency: number | null;
-  imageHeight: number;
-  combinedFFT: number[];
+  strideX: number | null;
+  strideY: number | null;
+  combinedFFTY: number[];
+  peakSearchOptions: PeakSearchOptions;
+  onPeakSearchOptionsChange: (options: PeakSearchOptions) => void;
+  lineSamplingOptions: LineSamplingOptions;
+  onLineSamplingOptionsChange: (options: LineSamplingOptions) => void;
+  edgeSignal: EdgeSignal;
+  onEdgeSignalChange: (signal: EdgeSignal) => void;
+  preprocessingOptions: PreprocessingOptions;
+  onPreprocessingOptionsChange: (options: PreprocessingOptions) => void;
+  deskew: boolean;
+  onDeskewChange: (deskew: boolean) => void;
 }
 
 const AnalysisControls: React.FC<AnalysisControlsProps> = ({
   imageData,
   processing,
+  progress,
   performFFT,
-  dominantFrequency,
-  imageHeight,
-  combinedFFT
+  strideX,
+  strideY,
+  combinedFFTY,
+  peakSearchOptions,
+  onPeakSearchOptionsChange,
+  lineSamplingOptions,
+  onLineSamplingOptionsChange,
+  edgeSignal,
+  onEdgeSignalChange,
+  preprocessingOptions,
+  onPreprocessingOptionsChange,
+  deskew,
+  onDeskewChange
 }) => {
+  const { smoothing } = peakSearchOptions;
+  const setSmoothing = (changes: Partial<SmoothingOptions>) =>
+    onPeakSearchOptionsChange({ ...peakSearchOptions, smoothing: { ...smoothing, ...changes } });
+
   return (
     <div className="mt-4">
       <div className="flex flex-wrap gap-2">
@@ -29,21 +70,263 @@ const AnalysisControls: React.FC<AnalysisControlsProps> = ({
           {processing ? 'Processing...' : 'Analyze with FFT'}
         </button>
         
-        {combinedFFT.length > 0 && (
+        {combinedFFTY.length > 0 && (
           <div className="text-sm flex items-center">
-            <span className="mr-2">Found peak at frequency:</span>
-            <span className="font-bold text-green-700">{dominantFrequency}</span>
-            <span className="mx-2">→</span>
+            <span className="mr-2">Found pixel pitch:</span>
             <span className="font-bold text-green-700">
-              {dominantFrequency ? (imageHeight / dominantFrequency).toFixed(1) : 0} pixels
+              {strideX ? strideX.toFixed(2) : 0} x {strideY ? strideY.toFixed(2) : 0} pixels
             </span>
           </div>
         )}
       </div>
       
+      <div className="flex flex-wrap gap-4 mt-2 text-sm">
+        <label className="flex items-center">
+          <span className="mr-2">Pitch detection:</span>
+          <select
+            value={peakSearchOptions.method}
+            onChange={(e) => onPeakSearchOptionsChange({
+              ...peakSearchOptions,
+              method: e.target.value as PitchDetectionMethod
+            })}
+            disabled={processing}
+            className="p-1 border border-gray-300 rounded"
+          >
+            <option value="peak">Tallest peak</option>
+            <option value="harmonic-product">Harmonic product spectrum</option>
+            <option value="autocorrelation">Autocorrelation</option>
+            <option value="auto">Auto (lowest reconstruction error)</option>
+          </select>
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2">Peak interpolation:</span>
+          <select
+            value={peakSearchOptions.interpolation}
+            onChange={(e) => onPeakSearchOptionsChange({
+              ...peakSearchOptions,
+              interpolation: e.target.value as PeakInterpolation
+            })}
+            disabled={processing}
+            className="p-1 border border-gray-300 rounded"
+          >
+            <option value="none">None (integer bin)</option>
+            <option value="parabolic">Parabolic</option>
+            <option value="gaussian">Gaussian</option>
+          </select>
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2">Zero-padding:</span>
+          <select
+            value={peakSearchOptions.zeroPadding}
+            onChange={(e) => onPeakSearchOptionsChange({
+              ...peakSearchOptions,
+              zeroPadding: parseInt(e.target.value, 10)
+            })}
+            disabled={processing}
+            className="p-1 border border-gray-300 rounded"
+          >
+            <option value={1}>Off</option>
+            <option value={2}>2x</option>
+            <option value={4}>4x</option>
+            <option value={8}>8x</option>
+          </select>
+        </label>
+      </div>
+      
+      <div className="flex flex-wrap gap-4 mt-2 text-sm">
+        <label className="flex items-center">
+          <span className="mr-2">Smoothing:</span>
+          <select
+            value={smoothing.kernel}
+            onChange={(e) => setSmoothing({ kernel: e.target.value as SmoothingKernel })}
+            disabled={processing}
+            className="p-1 border border-gray-300 rounded"
+          >
+            <option value="gaussian">Gaussian</option>
+            <option value="median">Median</option>
+            <option value="none">None</option>
+          </select>
+        </label>
+        {smoothing.kernel === 'gaussian' && (
+          <label className="flex items-center">
+            <span className="mr-2">σ:</span>
+            <NumberField
+              value={smoothing.sigma}
+              onCommit={(value) => value !== null && setSmoothing({ sigma: value })}
+              isValid={(value) => value > PEAK_SEARCH_LIMITS.minSigma}
+              min="0.5"
+              step="0.5"
+              disabled={processing}
+              className="w-16 p-1 border border-gray-300 rounded"
+            />
+          </label>
+        )}
+        {smoothing.kernel !== 'none' && (
+          <label className="flex items-center">
+            <span className="mr-2">{smoothing.kernel === 'gaussian' ? 'Kernel size:' : 'Window:'}</span>
+            <NumberField
+              value={smoothing.size}
+              onCommit={(value) => value !== null && setSmoothing({ size: value })}
+              isValid={(value) => value >= PEAK_SEARCH_LIMITS.minKernelSize}
+              integer
+              min={PEAK_SEARCH_LIMITS.minKernelSize}
+              step="2"
+              disabled={processing}
+              className="w-16 p-1 border border-gray-300 rounded"
+            />
+          </label>
+        )}
+        <label className="flex items-center">
+          <span className="mr-2">Pitch range:</span>
+          <NumberField
+            value={peakSearchOptions.minPitch}
+            onCommit={(value) => value !== null && onPeakSearchOptionsChange({ ...peakSearchOptions, minPitch: value })}
+            isValid={(value) =>
+              value >= PEAK_SEARCH_LIMITS.minPitch && (peakSearchOptions.maxPitch === null || value < peakSearchOptions.maxPitch)}
+            min={PEAK_SEARCH_LIMITS.minPitch}
+            step="0.5"
+            disabled={processing}
+            className="w-16 p-1 border border-gray-300 rounded"
+          />
+          <span className="mx-1">to</span>
+          <NumberField
+            value={peakSearchOptions.maxPitch}
+            placeholder="∞"
+            // Clearing the field removes the upper limit
+            allowEmpty
+            onCommit={(value) => onPeakSearchOptionsChange({ ...peakSearchOptions, maxPitch: value })}
+            isValid={(value) => value > peakSearchOptions.minPitch}
+            min={peakSearchOptions.minPitch}
+            step="0.5"
+            disabled={processing}
+            className="w-16 p-1 border border-gray-300 rounded"
+          />
+          <span className="ml-1">px</span>
+        </label>
+        <label className="flex items-center" title="The FFT search ignores DC and the slow brightness changes just above it">
+          <span className="mr-2">Skip frequencies below:</span>
+          <NumberField
+            value={peakSearchOptions.lowFrequencyCutoff}
+            onCommit={(value) => value !== null && onPeakSearchOptionsChange({ ...peakSearchOptions, lowFrequencyCutoff: value })}
+            isValid={(value) => value >= PEAK_SEARCH_LIMITS.minLowFrequencyCutoff}
+            integer
+            min={PEAK_SEARCH_LIMITS.minLowFrequencyCutoff}
+            disabled={processing}
+            className="w-16 p-1 border border-gray-300 rounded"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => onPeakSearchOptionsChange(DEFAULT_PEAK_SEARCH_OPTIONS)}
+          disabled={processing}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+        >
+          Reset to defaults
+        </button>
+      </div>
+      
+      <div className="flex flex-wrap gap-4 mt-2 text-sm">
+        <label className="flex items-center" title="How neighbouring pixels are compared to find the cell edges. Brightness misses edges between colors of similar lightness, such as red against green.">
+          <span className="mr-2">Edge signal:</span>
+          <select
+            value={edgeSignal}
+            onChange={(e) => onEdgeSignalChange(e.target.value as EdgeSignal)}
+            disabled={processing}
+            className="p-1 border border-gray-300 rounded"
+          >
+            <option value="luminance">Brightness</option>
+            <option value="channel-max">Largest channel change</option>
+            <option value="channel-sum">Summed channel change</option>
+            <option value="lab">Perceptual (Lab ΔE)</option>
+            <option value="alpha">Alpha (transparency)</option>
+          </select>
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2">Line sampling:</span>
+          <select
+            value={lineSamplingOptions.strategy}
+            onChange={(e) => onLineSamplingOptionsChange({
+              ...lineSamplingOptions,
+              strategy: e.target.value as LineSamplingStrategy
+            })}
+            disabled={processing}
+            className="p-1 border border-gray-300 rounded"
+          >
+            <option value="random">Random (seeded)</option>
+            <option value="even">Evenly spaced</option>
+            <option value="all">All lines</option>
+            <option value="content">Content-weighted</option>
+          </select>
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2">Lines per axis:</span>
+          <NumberField
+            value={lineSamplingOptions.lineCount}
+            onCommit={(value) => value !== null && onLineSamplingOptionsChange({ ...lineSamplingOptions, lineCount: value })}
+            isValid={(value) => value >= 1}
+            integer
+            min="1"
+            disabled={processing || lineSamplingOptions.strategy === 'all'}
+            className="w-20 p-1 border border-gray-300 rounded disabled:bg-gray-100"
+          />
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2">Seed:</span>
+          <NumberField
+            value={lineSamplingOptions.seed}
+            onCommit={(value) => value !== null && onLineSamplingOptionsChange({ ...lineSamplingOptions, seed: value })}
+            isValid={() => true}
+            integer
+            disabled={processing || lineSamplingOptions.strategy === 'even' || lineSamplingOptions.strategy === 'all'}
+            className="w-28 p-1 border border-gray-300 rounded disabled:bg-gray-100"
+          />
+          <button
+            type="button"
+            onClick={() => onLineSamplingOptionsChange({
+              ...lineSamplingOptions,
+              seed: Math.floor(Math.random() * 1000000)
+            })}
+            disabled={processing || lineSamplingOptions.strategy === 'even' || lineSamplingOptions.strategy === 'all'}
+            className="ml-1 px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+          >
+            Randomize
+          </button>
+        </label>
+        <label className="flex items-center" title="Estimates the grid's rotation and skew from the 2D spectrum and resamples the image straight before detection">
+          <input
+            type="checkbox"
+            checked={deskew}
+            onChange={(e) => onDeskewChange(e.target.checked)}
+            disabled={processing}
+            className="mr-2"
+          />
+          Straighten rotated grids
+        </label>
+        <label className="flex items-center" title="Median-filters the image and smooths out the faint steps on JPEG's 8x8 block boundaries, which otherwise show up as a false 8-pixel grid">
+          <input
+            type="checkbox"
+            checked={preprocessingOptions.enabled}
+            onChange={(e) => onPreprocessingOptionsChange({ ...preprocessingOptions, enabled: e.target.checked })}
+            disabled={processing}
+            className="mr-2"
+          />
+          Clean up JPEG artifacts
+        </label>
+        <label className="flex items-center" title="Also smooths noise inside flat areas while keeping edges, at some cost in speed">
+          <input
+            type="checkbox"
+            checked={preprocessingOptions.bilateral}
+            onChange={(e) => onPreprocessingOptionsChange({ ...preprocessingOptions, bilateral: e.target.checked })}
+            disabled={processing || !preprocessingOptions.enabled}
+            className="mr-2"
+          />
+          Bilateral filter
+        </label>
+      </div>
+      
       {processing && (
         <LoadingSpinner 
-          message="Analyzing image with FFT..." 
+          message={`Analyzing image with FFT...${progress ? ` ${Math.round(progress.fraction * 100)}%` : ''}`}
           size="small"
           className="mt-2"
         />
@@ -1,35 +1,219 @@
 import React from 'react';
-import { FFTResult } from './hooks/useImageAnalysis';
+import {
+  AnalysisOptions,
+  Axis,
+  EdgeSignal,
+  FFTResult,
+  GridCandidate,
+  HPS_HARMONICS,
+  LineSamplingStrategy,
+  PitchDetector,
+  PixelSample,
+  StrideEstimate
+} from '../../analysis/gridDetection';
+import { MIN_DESKEW_ANGLE, SkewEstimate } from '../../analysis/deskew';
+import { JPEG_BLOCK_SIZE } from '../../analysis/preprocessing';
+import { ReconstructionComparison } from '../../analysis/quality';
+import { WarpedGrid, warpedGridSize } from '../../analysis/warpedGrid';
+import { formatPsnr } from './ReconstructionComparisonDisplay';
+import { smoothingLabel } from './SpectrumChart';
 
 interface AnalysisSummaryProps {
   fftResults: FFTResult[];
   imageWidth: number;
   imageHeight: number;
-  dominantFrequency: number | null;
+  dominantFrequencyX: number | null;
+  dominantFrequencyY: number | null;
+  strideEstimateX: StrideEstimate | null;
+  strideEstimateY: StrideEstimate | null;
+  analysisOptions: AnalysisOptions;
+  candidatesX: GridCandidate[];
+  candidatesY: GridCandidate[];
+  selectedStrideX: number;
+  selectedStrideY: number;
+  onCandidateSelect: (axis: Axis, candidate: GridCandidate) => void;
+  detectionMethodX: PitchDetector;
+  detectionMethodY: PitchDetector;
+  pixelSamples: PixelSample[];
+  comparison: ReconstructionComparison | null;
+  skewEstimate: SkewEstimate | null; // Set when the image was checked for rotation first
+  deskewed: boolean; // Whether the image was straightened and cropped before detection
+  warpedGrid: WarpedGrid | null; // Set when the samples were taken on a non-uniform grid
+  blockPeakX: boolean; // The spectrum peaks at the JPEG block period along rows
+  blockPeakY: boolean; // ... and along columns
+  jpegCleanup: boolean; // Whether the analysis already ran the JPEG cleanup
 }
 
+// Cells where fewer than this fraction of pixels match the output color
+const AMBIGUOUS_AGREEMENT = 0.5;
+
+const METHOD_LABELS: Record<PitchDetector, string> = {
+  peak: 'the tallest smoothed FFT peak',
+  'harmonic-product': `the harmonic product spectrum (${HPS_HARMONICS} harmonics)`,
+  autocorrelation: 'the autocorrelation of the derivatives'
+};
+
+const SAMPLING_LABELS: Record<LineSamplingStrategy, string> = {
+  random: 'random',
+  even: 'evenly spaced',
+  all: 'all',
+  content: 'content-weighted'
+};
+
+const EDGE_SIGNAL_LABELS: Record<EdgeSignal, string> = {
+  luminance: 'brightness',
+  'channel-max': 'the largest RGB channel change',
+  'channel-sum': 'the summed RGB channel change',
+  lab: 'the perceptual Lab difference (ΔE)',
+  alpha: 'the alpha channel'
+};
+
+const formatInterval = (estimate: StrideEstimate) =>
+  `${estimate.low.toFixed(2)} – ${isFinite(estimate.high) ? estimate.high.toFixed(2) : '∞'}`;
+
+// Positive skew estimates turn clockwise on screen
+const formatAngle = (degrees: number) =>
+  `${Math.abs(degrees).toFixed(2)}° ${degrees >= 0 ? 'clockwise' : 'counterclockwise'}`;
+
+// A frequency belongs to a candidate within this many FFT bins of it, so a
+// peak picked on the chart still matches the candidate it was interpolated from
+const CANDIDATE_MATCH_BINS = 0.5;
+
+// The candidate nearest the pitch in use, if any is close enough.
+// Zero-padding puts `binsPerFrequency` bins in each unit of frequency.
+const matchCandidate = (candidates: GridCandidate[], frequency: number, binsPerFrequency: number) => {
+  const nearest = candidates.reduce<GridCandidate | null>(
+    (best, candidate) => !best || Math.abs(candidate.frequency - frequency) < Math.abs(best.frequency - frequency) ? candidate : best,
+    null
+  );
+  return nearest && Math.abs(nearest.frequency - frequency) * binsPerFrequency <= CANDIDATE_MATCH_BINS ? nearest : null;
+};
+
+const formatScore = (candidate: GridCandidate | null) =>
+  candidate ? `${Math.round(candidate.score * 100)}%` : 'n/a';
+
 const AnalysisSummary: React.FC<AnalysisSummaryProps> = ({
   fftResults,
   imageWidth,
   imageHeight,
-  dominantFrequency
+  dominantFrequencyX,
+  dominantFrequencyY,
+  strideEstimateX,
+  strideEstimateY,
+  analysisOptions,
+  candidatesX,
+  candidatesY,
+  selectedStrideX,
+  selectedStrideY,
+  onCandidateSelect,
+  detectionMethodX,
+  detectionMethodY,
+  pixelSamples,
+  comparison,
+  skewEstimate,
+  deskewed,
+  warpedGrid,
+  blockPeakX,
+  blockPeakY,
+  jpegCleanup
 }) => {
+  const { peakSearch: peakSearchOptions, lineSampling } = analysisOptions;
+  const columnCount = fftResults.filter(result => result.axis === 'y').length;
+  const rowCount = fftResults.filter(result => result.axis === 'x').length;
+  const seeded = lineSampling.strategy === 'random' || lineSampling.strategy === 'content';
+  const meanAgreement = pixelSamples.length > 0
+    ? pixelSamples.reduce((sum, sample) => sum + sample.agreement, 0) / pixelSamples.length
+    : 0;
+  const ambiguousCells = pixelSamples.filter(sample => sample.agreement < AMBIGUOUS_AGREEMENT).length;
+  // Frequencies of the strides being sampled, which differ from the detected
+  // ones once a candidate, a chart peak or the spinners change the pitch
+  const lineLength = (axis: Axis) => fftResults.find(result => result.axis === axis)?.derivatives.length ?? 0;
+  const frequencyX = lineLength('x') / selectedStrideX;
+  const frequencyY = lineLength('y') / selectedStrideY;
+  const matchX = matchCandidate(candidatesX, frequencyX, peakSearchOptions.zeroPadding);
+  const matchY = matchCandidate(candidatesY, frequencyY, peakSearchOptions.zeroPadding);
+
+  // The highlighted candidate is the one whose confidence the summary shows
+  const renderCandidates = (label: string, axis: Axis, candidates: GridCandidate[], selected: GridCandidate | null) => (
+    <div className="flex flex-wrap items-center gap-2 mt-1">
+      <span>• {label}:</span>
+      {candidates.map(candidate => {
+        const isSelected = candidate === selected;
+        return (
+          <button
+            key={candidate.frequency}
+            type="button"
+            onClick={() => onCandidateSelect(axis, candidate)}
+            title={`Prominence ${candidate.prominence.toFixed(2)}, harmonic consistency ${candidate.harmonicConsistency.toFixed(2)}, reconstruction error ${candidate.reconstructionError.toFixed(2)}`}
+            className={`px-2 py-0.5 rounded-full border text-xs ${isSelected ? 'bg-green-600 border-green-600 text-white' : 'bg-white border-gray-300 hover:bg-gray-100'}`}
+          >
+            {candidate.stride.toFixed(2)} px · {Math.round(candidate.score * 100)}%
+          </button>
+        );
+      })}
+    </div>
+  );
+
   return (
     <div className="mt-6">
       <h3 className="text-lg font-medium mb-2">Analysis Summary</h3>
       <div className="text-sm">
-        <p>• Applied derivative transform and FFT to {fftResults.length} vertical lines</p>
-        <p>• Image dimensions: {imageWidth} x {imageHeight} pixels</p>
+        <p>• Applied derivative transform and FFT to {columnCount} vertical and {rowCount} horizontal lines</p>
+        {(blockPeakX || blockPeakY) && (
+          <div className="my-2 p-2 bg-yellow-50 border border-yellow-300 rounded text-yellow-800">
+            <strong>Possible JPEG artifacts:</strong> the {blockPeakX && blockPeakY ? 'horizontal and vertical spectra peak' : `${blockPeakX ? 'horizontal' : 'vertical'} spectrum peaks`} at
+            the {JPEG_BLOCK_SIZE}-pixel period of JPEG compression blocks, which the detected grid doesn't explain.
+            {jpegCleanup
+              ? ' They remain after cleanup; check the result against the image.'
+              : ' Enable "Clean up JPEG artifacts" and analyze again if the pitch looks wrong.'}
+          </div>
+        )}
+        <p>• Edges measured by {EDGE_SIGNAL_LABELS[analysisOptions.edgeSignal]}</p>
+        {analysisOptions.preprocessing.enabled && (
+          <p>• JPEG cleanup before detection: median filter and block edge smoothing{analysisOptions.preprocessing.bilateral ? ', then a bilateral filter' : ''}</p>
+        )}
+        <p>• Line selection: {SAMPLING_LABELS[lineSampling.strategy]}{seeded ? ` (seed ${lineSampling.seed})` : ''}</p>
+        <p>• Image dimensions: {imageWidth} x {imageHeight} pixels{deskewed ? ' after straightening' : ''}</p>
+        {skewEstimate && (
+          <p>
+            • Grid angle: rotated {formatAngle(skewEstimate.rotation)}, skew {Math.abs(skewEstimate.skew).toFixed(2)}°
+            {deskewed ? ' (straightened before detection)' : ` (under ${MIN_DESKEW_ANGLE}°, left as is)`}
+          </p>
+        )}
         
-        {dominantFrequency ? (
+        {dominantFrequencyX && dominantFrequencyY && strideEstimateX && strideEstimateY ? (
           <>
             <p className="font-bold mt-2 text-green-700">Dominant Pattern Found:</p>
-            <p>• Frequency: {dominantFrequency}</p>
-            <p>• Pixel spacing: {(imageHeight / dominantFrequency).toFixed(1)} pixels</p>
-            <p>• Green horizontal lines on the image show the detected pattern</p>
-            <p>• Detection based on Gaussian smoothing (σ=2, kernel size=7) of FFT data</p>
+            <p>• Frequency in use: {frequencyX.toFixed(2)} horizontal, {frequencyY.toFixed(2)} vertical</p>
+            <p>• Pixel spacing X: {selectedStrideX.toFixed(2)} pixels in use; detected {strideEstimateX.stride.toFixed(2)} (confidence interval {formatInterval(strideEstimateX)})</p>
+            <p>• Pixel spacing Y: {selectedStrideY.toFixed(2)} pixels in use; detected {strideEstimateY.stride.toFixed(2)} (confidence interval {formatInterval(strideEstimateY)})</p>
+            <p>• Confidence in the pitch in use: {formatScore(matchX)} horizontal, {formatScore(matchY)} vertical</p>
+            <p>• Pixel aspect ratio: {(selectedStrideX / selectedStrideY).toFixed(2)}</p>
+            {(candidatesX.length > 1 || candidatesY.length > 1) && (
+              <div className="mt-2">
+                <p className="font-medium">Alternative pitches (click to re-sample):</p>
+                {renderCandidates('X', 'x', candidatesX, matchX)}
+                {renderCandidates('Y', 'y', candidatesY, matchY)}
+              </div>
+            )}
+            <p>• The grid overlay on the image shows the cells being sampled, including any offset and stride corrections</p>
+            <p>• Horizontal pitch detected with {METHOD_LABELS[detectionMethodX]}, vertical with {METHOD_LABELS[detectionMethodY]}
+              {peakSearchOptions.method === 'auto' ? ' (auto: lowest reconstruction error)' : ''}</p>
+            <p>• Peak refined with {peakSearchOptions.interpolation === 'none' ? 'no' : peakSearchOptions.interpolation} sub-bin interpolation
+              {peakSearchOptions.zeroPadding > 1 ? ` and ${peakSearchOptions.zeroPadding}x zero-padding` : ''}</p>
+            <p>• Spectrum {smoothingLabel(peakSearchOptions.smoothing).toLowerCase()}; pitches searched from {peakSearchOptions.minPitch} to {peakSearchOptions.maxPitch ?? '∞'} pixels,
+              skipping FFT frequencies below {peakSearchOptions.lowFrequencyCutoff}</p>
+            {warpedGrid && (
+              <p>• Non-uniform grid: {warpedGridSize(warpedGrid).width} x {warpedGridSize(warpedGrid).height} cells with boundaries following the edges</p>
+            )}
+            {pixelSamples.length > 0 && (
+              <p>• Cell agreement: {Math.round(meanAgreement * 100)}% on average, {ambiguousCells} of {pixelSamples.length} cells ambiguous (under {AMBIGUOUS_AGREEMENT * 100}% of pixels match)</p>
+            )}
+            {comparison && (
+              <p>• Reconstruction: PSNR {formatPsnr(comparison.score.psnr)}, SSIM {comparison.score.ssim.toFixed(4)}, MSE {comparison.score.mse.toFixed(2)} (re-upscaled with nearest neighbour)</p>
+            )}
             <p className="mt-2">If this image is rescaled pixel art, the original resolution was likely around 
-              {Math.round(imageWidth / (imageHeight / dominantFrequency))} x {dominantFrequency} pixels.</p>
+              {Math.round(imageWidth / selectedStrideX)} x {Math.round(imageHeight / selectedStrideY)} pixels.</p>
             <p>• The generated pixel art above shows an approximation of the original pixel art</p>
           </>
         ) : (
@@ -1,26 +1,45 @@
 import React from 'react';
+import { Axis, SmoothingOptions } from '../../analysis/gridDetection';
+import SpectrumChart, { SpectrumSeries } from './SpectrumChart';
 
 interface FFTResultsDisplayProps {
-  resultCanvasRef: React.RefObject<HTMLCanvasElement>;
-  combinedFFT: number[];
+  seriesX: SpectrumSeries;
+  seriesY: SpectrumSeries;
+  binsPerFrequency: number;
+  smoothing: SmoothingOptions;
+  onPeakSelect: (axis: Axis, frequency: number) => void;
 }
 
 const FFTResultsDisplay: React.FC<FFTResultsDisplayProps> = ({
-  resultCanvasRef,
-  combinedFFT
+  seriesX,
+  seriesY,
+  binsPerFrequency,
+  smoothing,
+  onPeakSelect
 }) => {
+  const hasResults = seriesY.combined.length > 0 || seriesX.combined.length > 0;
+
   return (
     <div>
       <h3 className="text-lg font-medium mb-2">Combined FFT Results</h3>
-      <div className="border border-gray-300">
-        <canvas ref={resultCanvasRef} className="max-w-full" />
-      </div>
-      {combinedFFT.length > 0 && (
-        <div className="mt-2 text-sm">
-          <p>The graph shows the summed magnitude of frequency components across all sampled lines.</p>
-          <p>Each vertical line represents a frequency, with taller lines indicating stronger presence in the image.</p>
-          <p>Peaks can indicate regular patterns like pixel grids in upscaled pixel art.</p>
-        </div>
+      {hasResults ? (
+        <>
+          <SpectrumChart
+            seriesX={seriesX}
+            seriesY={seriesY}
+            binsPerFrequency={binsPerFrequency}
+            smoothing={smoothing}
+            onPeakSelect={onPeakSelect}
+          />
+          <div className="mt-2 text-sm">
+            <p>The graph shows the summed magnitude of frequency components across all sampled lines.</p>
+            <p>Red shows the vertical pitch measured down the sampled columns, orange the horizontal pitch measured along the sampled rows.</p>
+            <p>Dashed lines mark the detected peaks, dotted lines their harmonics and circles the alternative pitches.</p>
+            <p>Scroll to zoom and drag to pan. Hover to read the pixel pitch a frequency implies; click near a peak to use it for sampling.</p>
+          </div>
+        </>
+      ) : (
+        <div className="border border-gray-300 h-32" />
       )}
     </div>
   );
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+
+interface NumberFieldProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'type'> {
+  value: number | null;
+  onCommit: (value: number | null) => void;
+  isValid: (value: number) => boolean;
+  integer?: boolean;
+  allowEmpty?: boolean; // An empty field commits null
+}
+
+// Number input that keeps what's typed as a draft and only validates and
+// commits it on blur or Enter, so values like "16" can be typed through an
+// out-of-range "1". An invalid draft reverts to the current value.
+const NumberField: React.FC<NumberFieldProps> = ({
+  value,
+  onCommit,
+  isValid,
+  integer = false,
+  allowEmpty = false,
+  ...inputProps
+}) => {
+  const [draft, setDraft] = useState<string>(value === null ? '' : String(value));
+
+  // Follow changes made elsewhere, like resetting to defaults
+  useEffect(() => {
+    setDraft(value === null ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    if (draft.trim() === '') {
+      if (allowEmpty) {
+        if (value !== null) onCommit(null);
+      } else {
+        setDraft(value === null ? '' : String(value));
+      }
+      return;
+    }
+
+    const parsed = Number(draft);
+    if (isNaN(parsed) || (integer && !Number.isInteger(parsed)) || !isValid(parsed)) {
+      setDraft(value === null ? '' : String(value));
+      return;
+    }
+    if (parsed !== value) onCommit(parsed);
+  };
+
+  return (
+    <input
+      {...inputProps}
+      type="number"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(value === null ? '' : String(value));
+      }}
+    />
+  );
+};
+
+export default NumberField;
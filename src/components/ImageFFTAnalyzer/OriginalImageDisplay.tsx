@@ -1,41 +1,180 @@
 import React from 'react';
+import { CellBreakdown, PixelSample } from '../../analysis/gridDetection';
+import { GridOverlaySettings, OverlayMode } from './hooks/useImageAnalysis';
 
 interface OriginalImageDisplayProps {
   canvasRef: React.RefObject<HTMLCanvasElement>;
-  selectedLines: number[];
-  dominantFrequency: number | null;
-  imageHeight: number;
+  selectedColumns: number[];
+  selectedRows: number[];
+  strideX: number | null;
+  strideY: number | null;
+  overlayMode: OverlayMode;
+  onOverlayModeChange: (mode: OverlayMode) => void;
+  gridOverlay: GridOverlaySettings;
+  onGridOverlayChange: (settings: GridOverlaySettings) => void;
+  cellBreakdown: CellBreakdown | null;
+  inspectedSample: PixelSample | null;
+  onCellClick: (x: number, y: number) => void;
   onCanvasClick: () => void;
 }
 
+const toHex = ([r, g, b]: [number, number, number, number]) =>
+  `#${[r, g, b].map(value => value.toString(16).padStart(2, '0')).join('')}`;
+
 const OriginalImageDisplay: React.FC<OriginalImageDisplayProps> = ({
   canvasRef,
-  selectedLines,
-  dominantFrequency,
-  imageHeight,
+  selectedColumns,
+  selectedRows,
+  strideX,
+  strideY,
+  overlayMode,
+  onOverlayModeChange,
+  gridOverlay,
+  onGridOverlayChange,
+  cellBreakdown,
+  inspectedSample,
+  onCellClick,
   onCanvasClick
 }) => {
+  // With the heatmap shown, clicks inspect a cell instead of opening the full-size view
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (overlayMode !== 'ambiguity' || !canvas) {
+      onCanvasClick();
+      return;
+    }
+    
+    // The canvas is scaled down to fit, so map the click back to image pixels
+    const rect = canvas.getBoundingClientRect();
+    const x = Math.floor((e.clientX - rect.left) * canvas.width / rect.width);
+    const y = Math.floor((e.clientY - rect.top) * canvas.height / rect.height);
+    onCellClick(x, y);
+  };
+
+  const renderBreakdown = (breakdown: CellBreakdown) => {
+    const [left, top, right, bottom] = breakdown.bounds;
+    const [innerLeft, innerTop, innerRight, innerBottom] = breakdown.innerBounds;
+    const total = breakdown.colors.reduce((sum, entry) => sum + entry.count, 0);
+    
+    return (
+      <div className="mt-2 p-2 bg-gray-50 rounded text-sm">
+        <p className="font-medium">
+          Cell ({breakdown.gridX}, {breakdown.gridY}): pixels {left}–{right - 1} x {top}–{bottom - 1}
+        </p>
+        {inspectedSample && (
+          <p className="flex items-center">
+            Sampled color:
+            <span
+              className="inline-block w-4 h-4 mx-1 border border-gray-300"
+              style={{ backgroundColor: toHex(inspectedSample.color) }}
+            />
+            <span className="font-mono mr-2">{toHex(inspectedSample.color)}</span>
+            ({Math.round(inspectedSample.agreement * 100)}% of inner pixels agree)
+          </p>
+        )}
+        <p className="text-xs text-gray-600">
+          Inner region read by aggregation: {innerLeft}–{innerRight - 1} x {innerTop}–{innerBottom - 1}
+        </p>
+        <table className="mt-1 text-xs">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="pr-3">Color</th>
+              <th className="pr-3">Cell</th>
+              <th>Inner</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.colors.slice(0, 12).map(entry => (
+              <tr key={entry.color.join(',')}>
+                <td className="pr-3 flex items-center">
+                  <span
+                    className="inline-block w-4 h-4 mr-1 border border-gray-300"
+                    style={{ backgroundColor: toHex(entry.color), opacity: entry.color[3] / 255 }}
+                  />
+                  <span className="font-mono">{toHex(entry.color)}</span>
+                </td>
+                <td className="pr-3">{entry.count} ({Math.round(entry.count / total * 100)}%)</td>
+                <td>{entry.innerCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {breakdown.colors.length > 12 && (
+          <p className="text-xs text-gray-600">...and {breakdown.colors.length - 12} more colors</p>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div>
       <h3 className="text-lg font-medium mb-2">Original Image with Selected Lines</h3>
+      <label className="flex items-center mb-2 text-sm">
+        <input
+          type="checkbox"
+          checked={overlayMode === 'ambiguity'}
+          onChange={(e) => onOverlayModeChange(e.target.checked ? 'ambiguity' : 'lines')}
+          className="mr-2"
+        />
+        Show cell ambiguity heatmap (green: cell agrees with its sampled color, red: it doesn't; click a cell for details)
+      </label>
+      <div className="flex flex-wrap items-center gap-4 mb-2 text-sm">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={gridOverlay.visible}
+            onChange={(e) => onGridOverlayChange({ ...gridOverlay, visible: e.target.checked })}
+            className="mr-2"
+          />
+          Show sampling grid
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2">Color:</span>
+          <input
+            type="color"
+            value={gridOverlay.color}
+            onChange={(e) => onGridOverlayChange({ ...gridOverlay, color: e.target.value })}
+            disabled={!gridOverlay.visible}
+            className="w-8 h-6 p-0 border border-gray-300 rounded"
+          />
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2">Opacity:</span>
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={gridOverlay.opacity}
+            onChange={(e) => onGridOverlayChange({ ...gridOverlay, opacity: parseFloat(e.target.value) })}
+            disabled={!gridOverlay.visible}
+          />
+          <span className="ml-2 w-10">{Math.round(gridOverlay.opacity * 100)}%</span>
+        </label>
+      </div>
       <div className="border border-gray-300 overflow-auto">
         <canvas 
           ref={canvasRef} 
-          className="max-w-full cursor-pointer hover:opacity-90" 
-          onClick={onCanvasClick}
+          className={`max-w-full ${overlayMode === 'ambiguity' ? 'cursor-crosshair' : 'cursor-pointer hover:opacity-90'}`}
+          onClick={handleClick}
         />
       </div>
-      {selectedLines.length > 0 && (
+      {overlayMode === 'ambiguity' && cellBreakdown && renderBreakdown(cellBreakdown)}
+      {selectedColumns.length > 0 && (
         <div className="mt-2 text-sm">
-          Selected {selectedLines.length} vertical lines at x positions: 
+          Selected {selectedColumns.length} vertical lines at x positions: 
+          <span className="text-xs font-mono">
+            {selectedColumns.slice(0, 10).join(', ')}{selectedColumns.length > 10 ? '...' : ''}
+          </span>
+          <br />
+          Selected {selectedRows.length} horizontal lines at y positions: 
           <span className="text-xs font-mono">
-            {selectedLines.slice(0, 10).join(', ')}{selectedLines.length > 10 ? '...' : ''}
+            {selectedRows.slice(0, 10).join(', ')}{selectedRows.length > 10 ? '...' : ''}
           </span>
           
-          {dominantFrequency && (
+          {strideX && strideY && (
             <p className="mt-1 font-medium text-green-700">
-              Detected pattern frequency: {dominantFrequency} 
-              (spacing: {(imageHeight / dominantFrequency).toFixed(1)} pixels)
+              Detected pattern spacing: {strideX.toFixed(1)} x {strideY.toFixed(1)} pixels
             </p>
           )}
         </div>
@@ -1,6 +1,34 @@
 import React, { useState } from 'react';
-import { ColorCount } from './hooks/usePixelArtGeneration';
+import { PaletteReductionMethod, PaletteReductionOptions } from '../../analysis/palette';
+import {
+  formatPaletteFile,
+  PALETTE_FILE_EXTENSIONS,
+  PaletteFileFormat,
+  renderPaletteSwatch
+} from '../../analysis/paletteFiles';
+import { ColorCount } from '../../analysis/reconstruction';
+import { PaletteSnapOptions, TargetPalette } from '../../analysis/targetPalette';
 import { PixelArtStorage } from '../../services/PixelArtStorage';
+import TargetPaletteControls from './TargetPaletteControls';
+
+const PALETTE_EXPORTS: { format: PaletteFileFormat | 'png'; label: string }[] = [
+  { format: 'gpl', label: 'GIMP (.gpl)' },
+  { format: 'paint-net', label: 'Paint.NET (.txt)' },
+  { format: 'jasc', label: 'JASC (.pal)' },
+  { format: 'hex', label: 'Lospec (.hex)' },
+  { format: 'png', label: 'PNG swatch' }
+];
+
+// Start a download of a Blob under the given file name
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking in the same task cancels the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
 
 interface PixelArtDisplayProps {
   pixelArtDataURL: string | null;
@@ -13,6 +41,12 @@ interface PixelArtDisplayProps {
   onSave?: () => void;
   enableTrimming: boolean;
   onTrimmingChange: (enabled: boolean) => void;
+  paletteOptions: PaletteReductionOptions;
+  onPaletteOptionsChange: (options: PaletteReductionOptions) => void;
+  snapOptions: PaletteSnapOptions | null;
+  onSnapOptionsChange: (options: PaletteSnapOptions | null) => void;
+  sampledPixelArtDataURL: string | null; // Before palette reduction and snapping
+  sampledColorCount: number;
 }
 
 const PixelArtDisplay: React.FC<PixelArtDisplayProps> = ({
@@ -25,8 +59,16 @@ const PixelArtDisplay: React.FC<PixelArtDisplayProps> = ({
   transparentPixelArtCanvasRef,
   onSave,
   enableTrimming,
-  onTrimmingChange
+  onTrimmingChange,
+  paletteOptions,
+  onPaletteOptionsChange,
+  snapOptions,
+  onSnapOptionsChange,
+  sampledPixelArtDataURL,
+  sampledColorCount
 }) => {
+  const recolored = paletteOptions.method !== 'none' || snapOptions !== null;
+
   const [saveMessage, setSaveMessage] = useState<string>('');
 
   if (!pixelArtDataURL) return null;
@@ -39,6 +81,7 @@ const PixelArtDisplay: React.FC<PixelArtDisplayProps> = ({
         transparentPixelArtDataURL,
         generatedPixelArt?.width,
         generatedPixelArt?.height,
+        // Colors after palette reduction and snapping, as saved
         colorHistogram.length
       );
       
@@ -53,6 +96,32 @@ const PixelArtDisplay: React.FC<PixelArtDisplayProps> = ({
     }
   };
 
+  // Download the sprite's colors, most frequent first, as a palette file
+  const handleExportPalette = (format: PaletteFileFormat | 'png') => {
+    const palette: TargetPalette = {
+      id: 'custom:pixel_art_palette',
+      name: 'pixel_art_palette',
+      colors: colorHistogram.map(({ rgba }) => [rgba[0], rgba[1], rgba[2]])
+    };
+    
+    if (format !== 'png') {
+      const text = formatPaletteFile(palette, format);
+      downloadBlob(new Blob([text], { type: 'text/plain' }), `${palette.name}${PALETTE_FILE_EXTENSIONS[format]}`);
+      return;
+    }
+    
+    const swatch = renderPaletteSwatch(palette);
+    const canvas = document.createElement('canvas');
+    canvas.width = swatch.width;
+    canvas.height = swatch.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(swatch.data), swatch.width, swatch.height), 0, 0);
+    canvas.toBlob(blob => {
+      if (blob) downloadBlob(blob, `${palette.name}.png`);
+    }, 'image/png');
+  };
+
   return (
     <div className="mt-6">
       <div className="flex items-center justify-between mb-2">
@@ -70,6 +139,90 @@ const PixelArtDisplay: React.FC<PixelArtDisplayProps> = ({
         )}
       </div>
       
+      <div className="mb-4">
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center">
+            <span className="mr-2 font-medium">Palette reduction:</span>
+            <select
+              value={paletteOptions.method}
+              onChange={(e) => onPaletteOptionsChange({ ...paletteOptions, method: e.target.value as PaletteReductionMethod })}
+              className="p-1 border border-gray-300 rounded"
+            >
+              <option value="none">None</option>
+              <option value="kmeans">k-means</option>
+              <option value="median-cut">Median cut</option>
+              <option value="merge">Merge similar colors</option>
+            </select>
+          </label>
+          {(paletteOptions.method === 'kmeans' || paletteOptions.method === 'median-cut') && (
+            <label className="flex items-center">
+              <span className="mr-2">Colors:</span>
+              <input
+                type="number"
+                value={paletteOptions.colorCount}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!isNaN(value) && value >= 1) {
+                    onPaletteOptionsChange({ ...paletteOptions, colorCount: value });
+                  }
+                }}
+                min="1"
+                className="w-20 p-1 border border-gray-300 rounded"
+              />
+            </label>
+          )}
+          {paletteOptions.method === 'merge' && (
+            <label className="flex items-center" title="Colors closer than this perceptual difference are merged into the more frequent one. Around 2 is barely visible; 10 merges clearly different shades.">
+              <span className="mr-2">Max ΔE:</span>
+              <input
+                type="number"
+                value={paletteOptions.mergeThreshold}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value) && value >= 0) {
+                    onPaletteOptionsChange({ ...paletteOptions, mergeThreshold: value });
+                  }
+                }}
+                min="0"
+                step="0.5"
+                className="w-20 p-1 border border-gray-300 rounded"
+              />
+            </label>
+          )}
+        </div>
+        <p className="mt-1 text-sm text-gray-600">
+          Antialiased or compressed edges leave near-duplicate colors. Each reduction groups them and repaints every group with its most frequent color.
+        </p>
+        
+        <TargetPaletteControls snapOptions={snapOptions} onSnapOptionsChange={onSnapOptionsChange} />
+        
+        {recolored && sampledPixelArtDataURL && (
+          <div className="grid grid-cols-2 gap-4 mt-2">
+            {[
+              { label: `Before: ${sampledColorCount} colors`, src: sampledPixelArtDataURL },
+              { label: `After: ${colorHistogram.length} colors`, src: pixelArtDataURL }
+            ].map(({ label, src }) => (
+              <div key={label}>
+                <h5 className="text-sm font-medium mb-1">{label}</h5>
+                <div className="border border-gray-300 overflow-auto bg-gray-100 p-2 flex justify-center">
+                  <img
+                    src={src}
+                    alt={label}
+                    className="pixelated"
+                    style={{
+                      imageRendering: 'pixelated',
+                      width: `${generatedPixelArt?.width ? generatedPixelArt.width * 2 : 0}px`,
+                      height: `${generatedPixelArt?.height ? generatedPixelArt.height * 2 : 0}px`,
+                      flexShrink: 0
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      
       {colorHistogram.length > 0 && (
         <div className="mb-4">
           <h4 className="text-md font-medium mb-2">Color Histogram</h4>
@@ -77,12 +230,24 @@ const PixelArtDisplay: React.FC<PixelArtDisplayProps> = ({
             <canvas ref={histogramCanvasRef} className="max-w-full" />
           </div>
           <div className="mt-2 text-sm">
-            <p>• Showing top {Math.min(20, colorHistogram.length)} most frequent colors in the pixel art</p>
+            <p>• Showing top {Math.min(20, colorHistogram.length)} most frequent colors in the pixel art{recolored ? ` (of ${colorHistogram.length} after recoloring, ${sampledColorCount} before)` : ''}</p>
             {colorHistogram[0] && (
               <p>• Most common color: {colorHistogram[0].color} (used {colorHistogram[0].count} times)</p>
             )}
             <p>• This color has been made transparent where it touches the edges</p>
           </div>
+          <div className="flex flex-wrap items-center gap-4 mt-2 text-sm">
+            <span className="font-medium">Export palette:</span>
+            {PALETTE_EXPORTS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => handleExportPalette(format)}
+                className="text-blue-500 hover:underline bg-none border-none p-0 font-inherit cursor-pointer"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
         </div>
       )}
       
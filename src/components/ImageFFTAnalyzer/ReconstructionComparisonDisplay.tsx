@@ -0,0 +1,69 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReconstructionComparison } from '../../analysis/quality';
+
+interface ReconstructionComparisonDisplayProps {
+  comparison: ReconstructionComparison | null;
+}
+
+type ComparisonView = 'diff' | 'upscaled';
+
+export const formatPsnr = (psnr: number) => isFinite(psnr) ? `${psnr.toFixed(2)} dB` : '∞ (exact)';
+
+const ReconstructionComparisonDisplay: React.FC<ReconstructionComparisonDisplayProps> = ({
+  comparison
+}) => {
+  const [view, setView] = useState<ComparisonView>('diff');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !comparison) return;
+
+    const image = view === 'diff' ? comparison.diff : comparison.upscaled;
+    canvas.width = image.width;
+    canvas.height = image.height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+  }, [comparison, view]);
+
+  if (!comparison) return null;
+
+  const { score } = comparison;
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-2">Reconstruction Check</h3>
+      <div className="flex gap-2 mb-2 text-sm">
+        <button
+          type="button"
+          onClick={() => setView('diff')}
+          className={`px-3 py-1 rounded ${view === 'diff' ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}`}
+        >
+          Difference
+        </button>
+        <button
+          type="button"
+          onClick={() => setView('upscaled')}
+          className={`px-3 py-1 rounded ${view === 'upscaled' ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}`}
+        >
+          Re-upscaled
+        </button>
+      </div>
+      <div className="border border-gray-300 overflow-auto">
+        <canvas ref={canvasRef} className="max-w-full" style={{ imageRendering: 'pixelated' }} />
+      </div>
+      <div className="mt-2 text-sm">
+        <p>The pixel art scaled back up with nearest-neighbour onto the sampled grid, compared with the original.</p>
+        <p>{view === 'diff' ? 'Black pixels match exactly; red to yellow marks growing differences.' : 'Switch to the difference view to see where the two disagree.'}</p>
+        <p className="mt-1 font-medium">
+          MSE: {score.mse.toFixed(2)} · PSNR: {formatPsnr(score.psnr)} · SSIM: {score.ssim.toFixed(4)}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ReconstructionComparisonDisplay;
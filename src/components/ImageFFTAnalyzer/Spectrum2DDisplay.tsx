@@ -0,0 +1,116 @@
+import React, { useEffect, useRef } from 'react';
+import { Spectrum2D, Spectrum2DOptions, SpectrumPeak } from '../../analysis/spectrum2d';
+
+interface Spectrum2DDisplayProps {
+  spectrum: Spectrum2D | null;
+  options: Spectrum2DOptions;
+  onOptionsChange: (options: Spectrum2DOptions) => void;
+  strideX: number | null; // Pitches found by the 1D detector, marked where they should peak
+  strideY: number | null;
+}
+
+// Spectra smaller than this are scaled up so the markers stay legible
+const MIN_DISPLAY_SIZE = 384;
+
+const describePeak = (peak: SpectrumPeak) => `${peak.period.toFixed(2)} px at ${peak.angle.toFixed(1)}°`;
+
+const Spectrum2DDisplay: React.FC<Spectrum2DDisplayProps> = ({
+  spectrum,
+  options,
+  onOptionsChange,
+  strideX,
+  strideY
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !spectrum) return;
+
+    const { width, height, heatmap } = spectrum;
+    const scale = Math.max(1, Math.floor(MIN_DISPLAY_SIZE / Math.max(width, height)));
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const source = document.createElement('canvas');
+    source.width = width;
+    source.height = height;
+    source.getContext('2d')?.putImageData(new ImageData(new Uint8ClampedArray(heatmap.data), width, height), 0, 0);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    // Peaks are listed in one half-plane; the spectrum mirrors them through DC
+    const centerX = (width / 2 + 0.5) * scale;
+    const centerY = (height / 2 + 0.5) * scale;
+    const markBoth = (u: number, v: number, mark: (x: number, y: number) => void) => {
+      mark(centerX + u * scale, centerY + v * scale);
+      mark(centerX - u * scale, centerY - v * scale);
+    };
+
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+    for (const peak of spectrum.peaks) {
+      markBoth(peak.u, peak.v, (x, y) => {
+        ctx.beginPath();
+        ctx.arc(x, y, 4, 0, Math.PI * 2);
+        ctx.stroke();
+      });
+    }
+
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = 'cyan';
+    for (const peak of spectrum.lattice) {
+      markBoth(peak.u, peak.v, (x, y) => {
+        ctx.beginPath();
+        ctx.arc(x, y, 8, 0, Math.PI * 2);
+        ctx.stroke();
+      });
+    }
+
+    // Crosses where an axis-aligned grid at the 1D pitches would peak
+    ctx.strokeStyle = 'lime';
+    const cross = (x: number, y: number) => {
+      ctx.beginPath();
+      ctx.moveTo(x - 6, y - 6);
+      ctx.lineTo(x + 6, y + 6);
+      ctx.moveTo(x + 6, y - 6);
+      ctx.lineTo(x - 6, y + 6);
+      ctx.stroke();
+    };
+    if (strideX) markBoth(width / strideX, 0, cross);
+    if (strideY) markBoth(0, height / strideY, cross);
+  }, [spectrum, strideX, strideY]);
+
+  if (!spectrum) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-2">2D Spectrum</h3>
+      <label className="flex items-center mb-2 text-sm">
+        <input
+          type="checkbox"
+          checked={options.windowed}
+          onChange={(e) => onOptionsChange({ ...options, windowed: e.target.checked })}
+          className="mr-2"
+        />
+        Hann window
+      </label>
+      <div className="border border-gray-300 overflow-auto bg-black">
+        <canvas ref={canvasRef} className="max-w-full" />
+      </div>
+      <div className="mt-2 text-sm">
+        <p>Log magnitude of the 2D FFT of the central {spectrum.width}×{spectrum.height} pixels of the edge image, with the zero frequency in the middle.</p>
+        <p>An axis-aligned grid gives peaks on the horizontal and vertical lines through the center; rotation tilts them and skew shears the lattice.</p>
+        <p>Cyan circles mark the lattice found here, white circles other strong peaks and green crosses where the 1D detector's pitches would peak.</p>
+        <p className="mt-1 font-medium">
+          Lattice: {spectrum.lattice.length > 0 ? spectrum.lattice.map(describePeak).join(' · ') : 'no peaks found'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Spectrum2DDisplay;
@@ -0,0 +1,488 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Axis, GridCandidate, interpolatePeak, PitchDetector, SmoothingOptions } from '../../analysis/gridDetection';
+
+// One axis's spectrum as plotted
+export interface SpectrumSeries {
+  combined: number[];
+  smoothed: number[];
+  derivativeLength: number; // Length of the analyzed lines, which turns a frequency into a pitch
+  peakFrequency: number | null;
+  method: PitchDetector | null;
+  candidates: GridCandidate[];
+}
+
+interface SpectrumChartProps {
+  seriesX: SpectrumSeries; // Rows, measuring the horizontal pitch
+  seriesY: SpectrumSeries; // Columns, measuring the vertical pitch
+  binsPerFrequency: number;
+  smoothing: SmoothingOptions; // Smoothing the plotted spectra were produced with
+  onPeakSelect: (axis: Axis, frequency: number) => void;
+}
+
+// Visible range of spectrum bins, end exclusive
+interface ChartView {
+  start: number;
+  end: number;
+}
+
+interface DragState {
+  x: number;
+  view: ChartView;
+  moved: boolean;
+}
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 400;
+const PADDING = 40;
+const GRAPH_WIDTH = CHART_WIDTH - 2 * PADDING;
+const GRAPH_HEIGHT = CHART_HEIGHT - 2 * PADDING;
+
+// Zoom factor per wheel notch or button press
+const ZOOM_STEP = 1.25;
+// Narrowest view, in frequency units
+const MIN_VISIBLE_FREQUENCIES = 4;
+// A click snaps to the tallest point within this many frequency units
+const PEAK_SNAP_FREQUENCIES = 3;
+// Pointer travel in canvas pixels under which a press counts as a click
+const CLICK_TOLERANCE = 3;
+// Highest harmonic marked on the chart
+const MAX_HARMONIC = 6;
+
+const AXIS_STYLES: Record<Axis, { name: string; curve: string; marker: string }> = {
+  y: { name: 'Vertical', curve: 'rgba(255, 0, 0, 0.8)', marker: 'green' },
+  x: { name: 'Horizontal', curve: 'rgba(255, 140, 0, 0.8)', marker: 'darkorange' }
+};
+
+// How the smoothed curves were smoothed, e.g. "Gaussian Smoothed (σ=2, kernel size=7)"
+export const smoothingLabel = ({ kernel, sigma, size }: SmoothingOptions) => {
+  switch (kernel) {
+    case 'gaussian':
+      return `Gaussian Smoothed (σ=${sigma}, kernel size=${size})`;
+    case 'median':
+      return `Median Smoothed (window=${size})`;
+    case 'none':
+      return 'Unsmoothed';
+  }
+};
+
+// Legend for an axis's curve
+const curveLabel = (direction: string, method: PitchDetector | null, smoothing: SmoothingOptions) =>
+  method === 'autocorrelation'
+    ? `${direction}, Autocorrelation (resampled by frequency)`
+    : `${direction}, ${smoothingLabel(smoothing)}`;
+
+// Autocorrelation is normalized to 1 at lag 0, FFT magnitudes run into the thousands
+const formatMagnitude = (value: number) => value < 10 ? value.toFixed(3) : value.toFixed(0);
+
+const maxInRange = (values: number[], start: number, end: number) => {
+  let max = 0;
+  for (let i = Math.max(0, start); i < Math.min(values.length, end); i++) {
+    max = Math.max(max, values[i]);
+  }
+  return max;
+};
+
+const SpectrumChart: React.FC<SpectrumChartProps> = ({
+  seriesX,
+  seriesY,
+  binsPerFrequency,
+  smoothing,
+  onPeakSelect
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  // Skip the DC component, which dwarfs everything else
+  const firstBin = binsPerFrequency;
+  const lastBin = Math.max(seriesX.combined.length, seriesY.combined.length, firstBin + 1);
+  const fullView: ChartView = { start: firstBin, end: lastBin };
+
+  const [view, setView] = useState<ChartView>(fullView);
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+
+  // Show the whole spectrum again whenever a new one arrives
+  useEffect(() => {
+    setView({ start: firstBin, end: lastBin });
+  }, [seriesX.combined, seriesY.combined, binsPerFrequency]);
+
+  // Keep a view inside the spectrum and no narrower than the minimum
+  const clampView = (start: number, end: number): ChartView => {
+    const fullSpan = lastBin - firstBin;
+    const span = Math.min(fullSpan, Math.max(MIN_VISIBLE_FREQUENCIES * binsPerFrequency, end - start));
+    const clampedStart = Math.max(firstBin, Math.min(lastBin - span, start));
+    return { start: clampedStart, end: clampedStart + span };
+  };
+
+  const span = view.end - view.start;
+  const binToX = (bin: number) => PADDING + ((bin - view.start) / span) * GRAPH_WIDTH;
+  const xToBin = (x: number) => view.start + ((x - PADDING) / GRAPH_WIDTH) * span;
+
+  // The vertical curves share a scale; the horizontal one is scaled to its
+  // own maximum since its bins are relative to the image width
+  const maxMagnitudeY = Math.max(
+    maxInRange(seriesY.combined, Math.floor(view.start), Math.ceil(view.end)),
+    maxInRange(seriesY.smoothed, Math.floor(view.start), Math.ceil(view.end))
+  );
+  const maxMagnitudeX = maxInRange(seriesX.smoothed, Math.floor(view.start), Math.ceil(view.end));
+
+  const curveY = (axis: Axis, bin: number) => {
+    const series = axis === 'x' ? seriesX : seriesY;
+    const max = axis === 'x' ? maxMagnitudeX : maxMagnitudeY;
+    const value = series.smoothed[Math.round(bin)] ?? 0;
+    return CHART_HEIGHT - PADDING - (max > 0 ? value / max : 0) * GRAPH_HEIGHT;
+  };
+
+  // The axis whose curve passes closest to a point is the one a click picks from
+  const nearestAxis = (x: number, y: number): Axis => {
+    const bin = xToBin(x);
+    if (seriesX.smoothed.length === 0) return 'y';
+    if (seriesY.smoothed.length === 0) return 'x';
+    return Math.abs(curveY('x', bin) - y) < Math.abs(curveY('y', bin) - y) ? 'x' : 'y';
+  };
+
+  // Snap to the tallest smoothed bin near the pointer and refine it to a fractional frequency
+  const peakNear = (axis: Axis, bin: number): number | null => {
+    const smoothed = (axis === 'x' ? seriesX : seriesY).smoothed;
+    const radius = PEAK_SNAP_FREQUENCIES * binsPerFrequency;
+    let peakBin = -1;
+    for (let i = Math.max(firstBin, Math.round(bin - radius)); i <= Math.min(smoothed.length - 1, Math.round(bin + radius)); i++) {
+      if (peakBin < 0 || smoothed[i] > smoothed[peakBin]) {
+        peakBin = i;
+      }
+    }
+    return peakBin > 0 ? interpolatePeak(smoothed, peakBin, 'parabolic') / binsPerFrequency : null;
+  };
+
+  // Map a mouse event to canvas pixels, since the canvas is scaled to fit
+  const canvasPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height
+    };
+  };
+
+  const zoomAround = (bin: number, factor: number) => {
+    const newSpan = span / factor;
+    const anchor = (bin - view.start) / span;
+    setView(clampView(bin - anchor * newSpan, bin - anchor * newSpan + newSpan));
+  };
+
+  // React registers wheel listeners as passive, so attach one directly to
+  // keep the page from scrolling while zooming
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const x = (e.clientX - rect.left) * canvas.width / rect.width;
+      zoomAround(xToBin(x), e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  });
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = canvasPoint(e);
+    if (point) {
+      dragRef.current = { x: point.x, view, moved: false };
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = canvasPoint(e);
+    if (!point) return;
+    setHover(point);
+
+    const drag = dragRef.current;
+    if (drag) {
+      const dx = point.x - drag.x;
+      if (Math.abs(dx) >= CLICK_TOLERANCE) drag.moved = true;
+      if (drag.moved) {
+        const dragSpan = drag.view.end - drag.view.start;
+        const shift = -(dx / GRAPH_WIDTH) * dragSpan;
+        setView(clampView(drag.view.start + shift, drag.view.end + shift));
+      }
+    }
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    const point = canvasPoint(e);
+    if (!drag || drag.moved || !point) return;
+    if (point.x < PADDING || point.x > CHART_WIDTH - PADDING) return;
+
+    const axis = nearestAxis(point.x, point.y);
+    const frequency = peakNear(axis, xToBin(point.x));
+    if (frequency) {
+      onPeakSelect(axis, frequency);
+    }
+  };
+
+  const handleMouseLeave = () => {
+    dragRef.current = null;
+    setHover(null);
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.width = CHART_WIDTH;
+    canvas.height = CHART_HEIGHT;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+
+    // Draw the axes
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(PADDING, CHART_HEIGHT - PADDING);
+    ctx.lineTo(CHART_WIDTH - PADDING, CHART_HEIGHT - PADDING);
+    ctx.moveTo(PADDING, PADDING);
+    ctx.lineTo(PADDING, CHART_HEIGHT - PADDING);
+    ctx.stroke();
+
+    ctx.fillStyle = 'black';
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('Frequency', CHART_WIDTH / 2, CHART_HEIGHT - 5);
+
+    ctx.save();
+    ctx.translate(10, CHART_HEIGHT / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText('Magnitude', 0, 0);
+    ctx.restore();
+
+    // Everything else stays inside the plot area
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(PADDING, PADDING - 30, GRAPH_WIDTH, GRAPH_HEIGHT + 30);
+    ctx.clip();
+
+    const first = Math.max(firstBin, Math.floor(view.start));
+    const last = Math.ceil(view.end);
+    const barWidth = Math.max(1, GRAPH_WIDTH / span);
+
+    // Draw vertical lines for each frequency in the combined FFT of the columns
+    if (maxMagnitudeY > 0) {
+      for (let bin = first; bin < last && bin < seriesY.combined.length; bin++) {
+        const magnitude = seriesY.combined[bin] / maxMagnitudeY;
+        const height = magnitude * GRAPH_HEIGHT;
+        ctx.fillStyle = `rgba(0, 0, 255, ${magnitude * 0.8 + 0.2})`;
+        ctx.fillRect(binToX(bin), CHART_HEIGHT - PADDING - height, barWidth, height);
+      }
+    }
+
+    // Draw each axis's smoothed curve on top
+    for (const axis of ['y', 'x'] as const) {
+      const series = axis === 'x' ? seriesX : seriesY;
+      const max = axis === 'x' ? maxMagnitudeX : maxMagnitudeY;
+      if (series.smoothed.length === 0 || max <= 0) continue;
+
+      ctx.strokeStyle = AXIS_STYLES[axis].curve;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      for (let bin = Math.max(firstBin, first - 1); bin <= last && bin < series.smoothed.length; bin++) {
+        const x = binToX(bin);
+        const y = curveY(axis, bin);
+        if (bin === Math.max(firstBin, first - 1)) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      }
+      ctx.stroke();
+
+      ctx.fillStyle = AXIS_STYLES[axis].curve;
+      ctx.font = '12px Arial';
+      ctx.textAlign = 'left';
+      ctx.fillText(curveLabel(AXIS_STYLES[axis].name, series.method, smoothing), PADDING + 10, PADDING + (axis === 'y' ? 20 : 36));
+    }
+
+    // Mark each axis's detected peak, its harmonics and the ranked alternatives
+    for (const axis of ['y', 'x'] as const) {
+      const series = axis === 'x' ? seriesX : seriesY;
+      const { marker } = AXIS_STYLES[axis];
+      const frequency = series.peakFrequency;
+
+      for (const candidate of series.candidates) {
+        if (frequency && Math.abs(candidate.frequency - frequency) < 1e-6) continue;
+        const bin = candidate.frequency * binsPerFrequency;
+        ctx.strokeStyle = marker;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(binToX(bin), curveY(axis, bin), 4, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+
+      if (!frequency) continue;
+
+      ctx.strokeStyle = marker;
+      ctx.fillStyle = marker;
+      ctx.textAlign = 'center';
+      ctx.font = '11px Arial';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([2, 4]);
+      for (let harmonic = 2; harmonic <= MAX_HARMONIC; harmonic++) {
+        const x = binToX(harmonic * frequency * binsPerFrequency);
+        if (x > CHART_WIDTH - PADDING) break;
+        ctx.beginPath();
+        ctx.moveTo(x, PADDING);
+        ctx.lineTo(x, CHART_HEIGHT - PADDING);
+        ctx.stroke();
+        ctx.fillText(`${harmonic}×`, x, CHART_HEIGHT - PADDING - (axis === 'y' ? 4 : 16));
+      }
+
+      // Draw a vertical line at the dominant frequency
+      const dominantX = binToX(frequency * binsPerFrequency);
+      const labelY = axis === 'y' ? PADDING - 10 : PADDING + 60;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([5, 5]);
+      ctx.beginPath();
+      ctx.moveTo(dominantX, PADDING);
+      ctx.lineTo(dominantX, CHART_HEIGHT - PADDING);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Label it with what this frequency means in pixels
+      ctx.font = 'bold 14px Arial';
+      ctx.fillText(`Peak ${axis.toUpperCase()}: ${frequency.toFixed(2)}`, dominantX, labelY);
+      ctx.font = '12px Arial';
+      ctx.fillText(`(${(series.derivativeLength / frequency).toFixed(2)} pixels)`, dominantX, labelY + 20);
+    }
+
+    ctx.restore();
+
+    // Draw frequency markers
+    const numMarkers = 10;
+    ctx.strokeStyle = 'black';
+    ctx.fillStyle = 'black';
+    ctx.lineWidth = 1;
+    ctx.textAlign = 'center';
+    ctx.font = '12px Arial';
+    for (let i = 0; i <= numMarkers; i++) {
+      const x = PADDING + (i / numMarkers) * GRAPH_WIDTH;
+      const frequency = (view.start + (i / numMarkers) * span) / binsPerFrequency;
+
+      ctx.beginPath();
+      ctx.moveTo(x, CHART_HEIGHT - PADDING);
+      ctx.lineTo(x, CHART_HEIGHT - PADDING + 5);
+      ctx.stroke();
+
+      ctx.fillText(span / binsPerFrequency < 20 ? frequency.toFixed(1) : Math.round(frequency).toString(), x, CHART_HEIGHT - PADDING + 15);
+    }
+
+    // Draw magnitude markers for the vertical spectrum
+    const numMagMarkers = 5;
+    ctx.textAlign = 'right';
+    for (let i = 0; i <= numMagMarkers; i++) {
+      const y = CHART_HEIGHT - PADDING - (i / numMagMarkers) * GRAPH_HEIGHT;
+
+      ctx.beginPath();
+      ctx.moveTo(PADDING - 5, y);
+      ctx.lineTo(PADDING, y);
+      ctx.stroke();
+
+      ctx.fillText(formatMagnitude((i / numMagMarkers) * maxMagnitudeY), PADDING - 8, y + 4);
+    }
+
+    // Hover: crosshair and a tooltip with the frequency, the pitch it
+    // implies on each axis and the magnitudes there
+    if (hover && hover.x >= PADDING && hover.x <= CHART_WIDTH - PADDING && !dragRef.current?.moved) {
+      const bin = xToBin(hover.x);
+      const frequency = bin / binsPerFrequency;
+      const index = Math.round(bin);
+      const axis = nearestAxis(hover.x, hover.y);
+
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(hover.x, PADDING);
+      ctx.lineTo(hover.x, CHART_HEIGHT - PADDING);
+      ctx.stroke();
+
+      const lines = [`Frequency: ${frequency.toFixed(2)}`];
+      for (const lineAxis of ['y', 'x'] as const) {
+        const series = lineAxis === 'x' ? seriesX : seriesY;
+        if (series.combined.length === 0) continue;
+        const magnitude = series.combined[index];
+        lines.push(`${AXIS_STYLES[lineAxis].name}: ${(series.derivativeLength / frequency).toFixed(2)} px` +
+          (magnitude !== undefined ? `, magnitude ${formatMagnitude(magnitude)}` : ''));
+      }
+      lines.push(`Click to use the nearest ${AXIS_STYLES[axis].name.toLowerCase()} peak`);
+
+      ctx.font = '12px Arial';
+      const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + 12;
+      const boxHeight = lines.length * 16 + 8;
+      const boxX = hover.x + boxWidth + 12 > CHART_WIDTH ? hover.x - boxWidth - 12 : hover.x + 12;
+      const boxY = Math.min(Math.max(hover.y - boxHeight / 2, 0), CHART_HEIGHT - boxHeight);
+
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.4)';
+      ctx.fillRect(boxX, boxY, boxWidth, boxHeight);
+      ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
+
+      ctx.fillStyle = 'black';
+      ctx.textAlign = 'left';
+      lines.forEach((line, i) => ctx.fillText(line, boxX + 6, boxY + 18 + i * 16));
+    }
+  });
+
+  const zoomed = view.start > firstBin || view.end < lastBin;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-1 text-sm">
+        <button
+          type="button"
+          onClick={() => zoomAround((view.start + view.end) / 2, ZOOM_STEP)}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300"
+        >
+          +
+        </button>
+        <button
+          type="button"
+          onClick={() => zoomAround((view.start + view.end) / 2, 1 / ZOOM_STEP)}
+          disabled={!zoomed}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+        >
+          −
+        </button>
+        <button
+          type="button"
+          onClick={() => setView(fullView)}
+          disabled={!zoomed}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+        >
+          Reset zoom
+        </button>
+        <span className="text-gray-600">
+          Frequencies {(view.start / binsPerFrequency).toFixed(1)}–{(view.end / binsPerFrequency).toFixed(1)}
+        </span>
+      </div>
+      <div className="border border-gray-300">
+        <canvas
+          ref={canvasRef}
+          className="max-w-full cursor-crosshair"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseLeave}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SpectrumChart;
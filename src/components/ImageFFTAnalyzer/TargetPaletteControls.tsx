@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { paletteFromImage, parsePaletteFile } from '../../analysis/paletteFiles';
+import { BUILT_IN_PALETTES, PaletteSnapOptions, TargetPalette } from '../../analysis/targetPalette';
+import { PaletteStorage } from '../../services/PaletteStorage';
+
+interface TargetPaletteControlsProps {
+  snapOptions: PaletteSnapOptions | null; // null when colors are kept as sampled
+  onSnapOptionsChange: (options: PaletteSnapOptions | null) => void;
+}
+
+// Decode an uploaded image file into its pixels
+const readImageFile = (file: File): Promise<ImageData> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get a canvas to read the image'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, img.width, img.height));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`"${file.name}" isn't an image or palette file`));
+    };
+    img.src = url;
+  });
+
+const TargetPaletteControls: React.FC<TargetPaletteControlsProps> = ({ snapOptions, onSnapOptionsChange }) => {
+  const [customPalettes, setCustomPalettes] = useState<TargetPalette[]>(() => PaletteStorage.getCustomPalettes());
+  const [uploadError, setUploadError] = useState<string>('');
+
+  const palettes = [...BUILT_IN_PALETTES, ...customPalettes];
+  const selected = snapOptions?.palette ?? null;
+
+  const selectPalette = (id: string) => {
+    const palette = palettes.find(candidate => candidate.id === id);
+    onSnapOptionsChange(palette ? { palette, preserveDither: snapOptions?.preserveDither ?? false } : null);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const palette = file.type.startsWith('image/')
+        ? paletteFromImage(await readImageFile(file), file.name.replace(/\.[^.]*$/, ''))
+        : parsePaletteFile(file.name, await file.text());
+      setCustomPalettes(PaletteStorage.saveCustomPalette(palette));
+      setUploadError('');
+      onSnapOptionsChange({ palette, preserveDither: snapOptions?.preserveDither ?? false });
+    } catch (error) {
+      console.error('Failed to load palette:', error);
+      setUploadError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    setCustomPalettes(PaletteStorage.deleteCustomPalette(selected.id));
+    onSnapOptionsChange(null);
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center">
+          <span className="mr-2 font-medium">Target palette:</span>
+          <select
+            value={selected?.id ?? ''}
+            onChange={(e) => selectPalette(e.target.value)}
+            className="p-1 border border-gray-300 rounded"
+          >
+            <option value="">None (keep sampled colors)</option>
+            <optgroup label="Built-in">
+              {BUILT_IN_PALETTES.map(palette => (
+                <option key={palette.id} value={palette.id}>{palette.name} ({palette.colors.length})</option>
+              ))}
+            </optgroup>
+            {customPalettes.length > 0 && (
+              <optgroup label="Uploaded">
+                {customPalettes.map(palette => (
+                  <option key={palette.id} value={palette.id}>{palette.name} ({palette.colors.length})</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        <label className="flex items-center cursor-pointer text-blue-500 hover:underline">
+          Upload palette…
+          <input
+            type="file"
+            accept=".gpl,.txt,.hex,.pal,image/*"
+            onChange={handleUpload}
+            className="hidden"
+          />
+        </label>
+        {selected?.id.startsWith('custom:') && (
+          <button
+            onClick={handleDelete}
+            className="text-red-500 hover:underline bg-none border-none p-0 font-inherit cursor-pointer"
+          >
+            Delete palette
+          </button>
+        )}
+        {snapOptions && (
+          <label className="flex items-center" title="Colors that alternate in the sprite, like a checkerboard dither or a highlight on its base color, stay apart even when the same palette entry is nearest to both.">
+            <input
+              type="checkbox"
+              checked={snapOptions.preserveDither}
+              onChange={(e) => onSnapOptionsChange({ ...snapOptions, preserveDither: e.target.checked })}
+              className="mr-2"
+            />
+            <span>Preserve dithering</span>
+          </label>
+        )}
+      </div>
+
+      {selected && (
+        <div className="flex flex-wrap mt-2">
+          {selected.colors.map(([r, g, b], i) => (
+            <div
+              key={i}
+              title={`rgb(${r}, ${g}, ${b})`}
+              className="w-4 h-4 border border-gray-300"
+              style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }}
+            />
+          ))}
+        </div>
+      )}
+
+      {uploadError && <p className="mt-1 text-sm text-red-600">{uploadError}</p>}
+      <p className="mt-1 text-sm text-gray-600">
+        Snaps every color to the nearest entry of a locked palette, after any reduction. Upload GIMP .gpl, Paint.NET .txt, JASC .pal or .hex files, or an image of the palette's colors, such as an exported swatch.
+      </p>
+    </div>
+  );
+};
+
+export default TargetPaletteControls;
@@ -1,33 +1,146 @@
 import { useState, useEffect, useRef } from 'react';
-import * as math from 'mathjs';
+import {
+  AnalysisOptions,
+  AnalysisStage,
+  Axis,
+  DEFAULT_EDGE_SIGNAL,
+  DEFAULT_LINE_SAMPLING_OPTIONS,
+  DEFAULT_SAMPLING_OPTIONS,
+  FFTResult,
+  CellBreakdown,
+  cellAt,
+  describeCell,
+  EdgeSignal,
+  estimateGridOffset,
+  GridCandidate,
+  GridGeometry,
+  ImageAnalysisResult,
+  LineSamplingOptions,
+  PeakSearchOptions,
+  PitchDetector,
+  PixelSample,
+  SamplingOptions,
+  StrideEstimate
+} from '../../../analysis/gridDetection';
+import { DeskewResult, SkewEstimate } from '../../../analysis/deskew';
+import { DEFAULT_PREPROCESSING_OPTIONS, PreprocessingOptions } from '../../../analysis/preprocessing';
+import { GridRefinement, ReconstructionComparison } from '../../../analysis/quality';
+import { DEFAULT_SPECTRUM_2D_OPTIONS, Spectrum2D, Spectrum2DOptions } from '../../../analysis/spectrum2d';
+import {
+  boundaryAt,
+  describeWarpedCell,
+  GridMode,
+  WarpedGrid,
+  warpedCellAt,
+  warpedCellBounds
+} from '../../../analysis/warpedGrid';
+import { AnalysisWorkerRequest, AnalysisWorkerResponse } from '../../../analysis/workerProtocol';
+import { AnalysisSettingsStorage } from '../../../services/AnalysisSettingsStorage';
 
-export interface FFTResult {
-  x: number;
-  fft: math.Complex[];
-  magnitudes: number[];
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  fraction: number; // 0.0 - 1.0
 }
 
-export interface PixelSample {
-  x: number;
-  y: number;
-  color: [number, number, number, number]; // RGBA
+// Auto-refinement in flight, with the best grid it has found so far
+export interface RefinementProgress {
+  fraction: number; // 0.0 - 1.0
+  best: GridGeometry;
+  mse: number;
+}
+
+// What is drawn over the original image: the analyzed lines, sample points
+// and detected grid, or every sampled cell colored by how ambiguous it was
+export type OverlayMode = 'lines' | 'ambiguity';
+
+export interface GridOverlaySettings {
+  visible: boolean;
+  color: string; // CSS color
+  opacity: number; // 0.0 - 1.0
 }
 
 export const useImageAnalysis = () => {
   const [imageData, setImageData] = useState<ImageData | null>(null);
   const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
   const [fftResults, setFftResults] = useState<FFTResult[]>([]);
-  const [combinedFFT, setCombinedFFT] = useState<number[]>([]);
-  const [smoothedFFT, setSmoothedFFT] = useState<number[]>([]);
-  const [selectedLines, setSelectedLines] = useState<number[]>([]);
+  const [combinedFFTX, setCombinedFFTX] = useState<number[]>([]);
+  const [combinedFFTY, setCombinedFFTY] = useState<number[]>([]);
+  const [smoothedFFTX, setSmoothedFFTX] = useState<number[]>([]);
+  const [smoothedFFTY, setSmoothedFFTY] = useState<number[]>([]);
+  const [selectedColumns, setSelectedColumns] = useState<number[]>([]);
+  const [selectedRows, setSelectedRows] = useState<number[]>([]);
   const [processing, setProcessing] = useState<boolean>(false);
   const [imageWidth, setImageWidth] = useState<number>(0);
   const [imageHeight, setImageHeight] = useState<number>(0);
-  const [dominantFrequency, setDominantFrequency] = useState<number | null>(null);
+  const [dominantFrequencyX, setDominantFrequencyX] = useState<number | null>(null);
+  const [dominantFrequencyY, setDominantFrequencyY] = useState<number | null>(null);
+  const [offsetX, setOffsetX] = useState<number>(0);
+  const [offsetY, setOffsetY] = useState<number>(0);
+  const [strideEstimateX, setStrideEstimateX] = useState<StrideEstimate | null>(null);
+  const [strideEstimateY, setStrideEstimateY] = useState<StrideEstimate | null>(null);
+  const [detectionMethodX, setDetectionMethodX] = useState<PitchDetector | null>(null);
+  const [detectionMethodY, setDetectionMethodY] = useState<PitchDetector | null>(null);
+  const [candidatesX, setCandidatesX] = useState<GridCandidate[]>([]);
+  const [candidatesY, setCandidatesY] = useState<GridCandidate[]>([]);
+  // Whether each axis's spectrum shows a JPEG block peak the grid doesn't explain
+  const [blockPeakX, setBlockPeakX] = useState<boolean>(false);
+  const [blockPeakY, setBlockPeakY] = useState<boolean>(false);
+  const [spectrumResolution, setSpectrumResolution] = useState<number>(1);
+  // Peak search settings are remembered between sessions
+  const [peakSearchOptions, setPeakSearchOptions] = useState<PeakSearchOptions>(() => AnalysisSettingsStorage.loadPeakSearchOptions());
+  const [lineSamplingOptions, setLineSamplingOptions] = useState<LineSamplingOptions>(DEFAULT_LINE_SAMPLING_OPTIONS);
+  const [samplingOptions, setSamplingOptions] = useState<SamplingOptions>(DEFAULT_SAMPLING_OPTIONS);
+  const [edgeSignal, setEdgeSignal] = useState<EdgeSignal>(DEFAULT_EDGE_SIGNAL);
+  const [preprocessingOptions, setPreprocessingOptions] = useState<PreprocessingOptions>(DEFAULT_PREPROCESSING_OPTIONS);
+  // Options the current results were produced with (the controls may have changed since)
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
   const [pixelSamples, setPixelSamples] = useState<PixelSample[]>([]);
+  // Grid the current samples were taken on, which the spinners may have moved off the detected one
+  const [sampledGrid, setSampledGrid] = useState<GridGeometry | null>(null);
+  // Samples scaled back up and compared with the original
+  const [comparison, setComparison] = useState<ReconstructionComparison | null>(null);
+  const [refinement, setRefinement] = useState<RefinementProgress | null>(null);
+  // Outcome of the last finished auto-refinement
+  const [refinedGrid, setRefinedGrid] = useState<GridRefinement | null>(null);
+  // 2D spectrum of the derivative image, recomputed after each analysis
+  const [spectrum2D, setSpectrum2D] = useState<Spectrum2D | null>(null);
+  const [spectrum2DOptions, setSpectrum2DOptions] = useState<Spectrum2DOptions>(DEFAULT_SPECTRUM_2D_OPTIONS);
+  // Straighten rotated or skewed images before detecting the grid
+  const [deskewEnabled, setDeskewEnabled] = useState<boolean>(false);
+  // How far off the axes the last analysis found the grid, and the
+  // straightened image everything since was done on
+  const [skewEstimate, setSkewEstimate] = useState<SkewEstimate | null>(null);
+  const [deskewedImageData, setDeskewedImageData] = useState<ImageData | null>(null);
+  // Sample on the uniform grid or on cell boundaries that follow the edges,
+  // and the boundaries the current samples were taken on in the latter case
+  const [gridMode, setGridMode] = useState<GridMode>('uniform');
+  const [warpedGrid, setWarpedGrid] = useState<WarpedGrid | null>(null);
+  const [overlayMode, setOverlayMode] = useState<OverlayMode>('lines');
+  const [cellBreakdown, setCellBreakdown] = useState<CellBreakdown | null>(null);
+  const [gridOverlay, setGridOverlay] = useState<GridOverlaySettings>({ visible: true, color: '#00ff00', opacity: 0.5 });
   const [pendingCallback, setPendingCallback] = useState<(() => void) | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const resultCanvasRef = useRef<HTMLCanvasElement>(null);
+  // The worker keeps the last image it was sent so re-sampling doesn't copy it again
+  const workerRef = useRef<Worker | null>(null);
+  const workerImageRef = useRef<ImageData | null>(null);
+  const latestRequestIdRef = useRef<number>(0);
+  const activeRequestIdRef = useRef<number | null>(null);
+  // The 2D spectrum is requested alongside the others without superseding them
+  const latestSpectrumRequestIdRef = useRef<number>(0);
+  
+  // Image the grid was detected on, which is the uploaded one unless it was straightened
+  const analyzedImageData = deskewedImageData ?? imageData;
+  const analyzedWidth = deskewedImageData ? deskewedImageData.width : imageWidth;
+  const analyzedHeight = deskewedImageData ? deskewedImageData.height : imageHeight;
+  
+  // Detected pixel pitch along each axis, in source pixels per grid cell
+  const strideX = strideEstimateX ? strideEstimateX.stride : null;
+  const strideY = strideEstimateY ? strideEstimateY.stride : null;
+  
+  useEffect(() => {
+    AnalysisSettingsStorage.savePeakSearchOptions(peakSearchOptions);
+  }, [peakSearchOptions]);
   
   // Run the callback when imageData changes
   useEffect(() => {
@@ -71,12 +184,29 @@ export const useImageAnalysis = () => {
       
       // Reset results when new image is loaded
       console.log("ImageFFTAnalyzer: Resetting state for new Gemini image");
+      cancelAnalysis();
       setFftResults([]);
-      setSelectedLines([]);
-      setCombinedFFT([]);
-      setSmoothedFFT([]);
+      setSelectedColumns([]);
+      setSelectedRows([]);
+      setCombinedFFTX([]);
+      setCombinedFFTY([]);
+      setSmoothedFFTX([]);
+      setSmoothedFFTY([]);
       setPixelSamples([]);
-      setDominantFrequency(null);
+      setSampledGrid(null);
+      setComparison(null);
+      setRefinedGrid(null);
+      setSpectrum2D(null);
+      setSkewEstimate(null);
+      setDeskewedImageData(null);
+      setWarpedGrid(null);
+      setCellBreakdown(null);
+      setDominantFrequencyX(null);
+      setDominantFrequencyY(null);
+      setOffsetX(0);
+      setOffsetY(0);
+      setStrideEstimateX(null);
+      setStrideEstimateY(null);
       
       // Set image data
       console.log("ImageFFTAnalyzer: Setting imageData for Gemini image", {
@@ -121,18 +251,202 @@ export const useImageAnalysis = () => {
         setImageData(imgData);
         
         // Reset results when new image is loaded
+        cancelAnalysis();
         setFftResults([]);
-        setSelectedLines([]);
-        setCombinedFFT([]);
-        setSmoothedFFT([]);
+        setSelectedColumns([]);
+        setSelectedRows([]);
+        setCombinedFFTX([]);
+        setCombinedFFTY([]);
+        setSmoothedFFTX([]);
+        setSmoothedFFTY([]);
         setPixelSamples([]);
-        setDominantFrequency(null);
+        setSampledGrid(null);
+        setComparison(null);
+        setRefinedGrid(null);
+        setSpectrum2D(null);
+        setSkewEstimate(null);
+        setDeskewedImageData(null);
+        setWarpedGrid(null);
+        setCellBreakdown(null);
+        setDominantFrequencyX(null);
+        setDominantFrequencyY(null);
+        setOffsetX(0);
+        setOffsetY(0);
+        setStrideEstimateX(null);
+        setStrideEstimateY(null);
       };
       img.src = event.target?.result as string;
     };
     reader.readAsDataURL(file);
   };
 
+  // Lazily start the analysis worker and route its messages into state
+  const getWorker = (): Worker => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../../../analysis/analysis.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => handleWorkerMessage(event.data);
+      worker.onerror = (event: ErrorEvent) => {
+        console.error("ImageFFTAnalyzer: Analysis worker failed", event.message);
+        activeRequestIdRef.current = null;
+        setProcessing(false);
+        setProgress(null);
+      };
+      workerRef.current = worker;
+      workerImageRef.current = null;
+    }
+    return workerRef.current;
+  };
+
+  // Send a request, first transferring a copy of the image if the worker doesn't hold it yet
+  const postToWorker = (imgDataToProcess: ImageData, request: AnalysisWorkerRequest) => {
+    const worker = getWorker();
+    
+    if (workerImageRef.current !== imgDataToProcess) {
+      const buffer = imgDataToProcess.data.slice().buffer;
+      const setImage: AnalysisWorkerRequest = {
+        type: 'setImage',
+        width: imgDataToProcess.width,
+        height: imgDataToProcess.height,
+        buffer
+      };
+      worker.postMessage(setImage, [buffer]);
+      workerImageRef.current = imgDataToProcess;
+    }
+    
+    worker.postMessage(request);
+  };
+
+  // Stop any analysis in flight. The worker runs synchronously, so the only
+  // way to interrupt it is to terminate it; a fresh one starts on demand.
+  // A 2D spectrum still queued is dropped too, since it may be of an image
+  // that is being replaced.
+  const cancelAnalysis = () => {
+    if (activeRequestIdRef.current !== null && workerRef.current) {
+      console.log("ImageFFTAnalyzer: Cancelling analysis", activeRequestIdRef.current);
+      workerRef.current.terminate();
+      workerRef.current = null;
+      workerImageRef.current = null;
+    }
+    activeRequestIdRef.current = null;
+    latestSpectrumRequestIdRef.current++;
+    setSpectrum2D(null);
+    setProcessing(false);
+    setProgress(null);
+    setRefinement(null);
+  };
+
+  const handleWorkerMessage = (message: AnalysisWorkerResponse) => {
+    if (message.type === 'spectrum2d') {
+      if (message.requestId === latestSpectrumRequestIdRef.current) {
+        console.log("ImageFFTAnalyzer: 2D spectrum ready", message.spectrum?.lattice);
+        setSpectrum2D(message.spectrum);
+      }
+      return;
+    }
+    
+    // Ignore anything from requests that have been superseded
+    if (message.requestId !== latestRequestIdRef.current) return;
+    
+    switch (message.type) {
+      case 'progress':
+        setProgress({ stage: message.stage, fraction: message.fraction });
+        break;
+      case 'analysis':
+        activeRequestIdRef.current = null;
+        applyDeskewResult(message.deskew);
+        applyAnalysisResult(message.result);
+        setWarpedGrid(message.warpedGrid);
+        setComparison(message.comparison);
+        break;
+      case 'samples':
+        activeRequestIdRef.current = null;
+        console.log("ImageFFTAnalyzer: Setting pixelSamples with", message.samples.length, "samples", {
+          timestamp: new Date().toISOString(),
+          source: "worker"
+        });
+        setWarpedGrid(message.warpedGrid);
+        setPixelSamples(message.samples);
+        setComparison(message.comparison);
+        break;
+      case 'refineProgress':
+        setRefinement({ fraction: message.fraction, best: message.best, mse: message.mse });
+        break;
+      case 'refined':
+        activeRequestIdRef.current = null;
+        console.log("ImageFFTAnalyzer: Auto-refinement finished", message.refinement);
+        setRefinement(null);
+        setRefinedGrid(message.refinement);
+        setSampledGrid(message.refinement.geometry);
+        setCellBreakdown(null);
+        setWarpedGrid(message.warpedGrid);
+        setPixelSamples(message.samples);
+        setComparison(message.comparison);
+        break;
+      case 'error':
+        activeRequestIdRef.current = null;
+        console.error("ImageFFTAnalyzer: Analysis failed", message.message);
+        setProcessing(false);
+        setProgress(null);
+        setRefinement(null);
+        break;
+    }
+  };
+
+  // Switch to the straightened image, or back to the uploaded one. The worker
+  // still holds the image it was sent, so the next request sends this one.
+  const applyDeskewResult = (deskew: DeskewResult | null) => {
+    console.log("ImageFFTAnalyzer: Skew estimate", deskew?.estimate ?? null);
+    setSkewEstimate(deskew?.estimate ?? null);
+    
+    if (deskew?.image) {
+      const straightened = new ImageData(new Uint8ClampedArray(deskew.image.data), deskew.image.width, deskew.image.height);
+      setDeskewedImageData(straightened);
+    } else {
+      setDeskewedImageData(null);
+    }
+  };
+
+  const applyAnalysisResult = (result: ImageAnalysisResult) => {
+    const { columnAnalysis, rowAnalysis } = result;
+    
+    console.log("ImageFFTAnalyzer: Setting dominant frequencies to", {
+      peakFrequencyX: rowAnalysis.peakFrequency,
+      peakFrequencyY: columnAnalysis.peakFrequency
+    });
+    console.log("ImageFFTAnalyzer: Estimated grid offsets", { offsetX: rowAnalysis.offset, offsetY: columnAnalysis.offset });
+    setAnalysisOptions(result.options);
+    setSelectedColumns(result.columns);
+    setSelectedRows(result.rows);
+    setDominantFrequencyX(rowAnalysis.peakFrequency);
+    setDominantFrequencyY(columnAnalysis.peakFrequency);
+    setOffsetX(rowAnalysis.offset);
+    setOffsetY(columnAnalysis.offset);
+    setStrideEstimateX(rowAnalysis.strideEstimate);
+    setStrideEstimateY(columnAnalysis.strideEstimate);
+    setDetectionMethodX(rowAnalysis.method);
+    setDetectionMethodY(columnAnalysis.method);
+    setCandidatesX(rowAnalysis.candidates);
+    setCandidatesY(columnAnalysis.candidates);
+    setBlockPeakX(rowAnalysis.blockPeak);
+    setBlockPeakY(columnAnalysis.blockPeak);
+    setSpectrumResolution(columnAnalysis.binsPerFrequency);
+    setFftResults([...columnAnalysis.results, ...rowAnalysis.results]);
+    setCombinedFFTX(rowAnalysis.combinedMagnitudes);
+    setCombinedFFTY(columnAnalysis.combinedMagnitudes);
+    setSmoothedFFTX(rowAnalysis.smoothedMagnitudes);
+    setSmoothedFFTY(columnAnalysis.smoothedMagnitudes);
+    setPixelSamples(result.samples);
+    setSampledGrid(rowAnalysis.strideEstimate && columnAnalysis.strideEstimate ? {
+      strideX: rowAnalysis.strideEstimate.stride,
+      strideY: columnAnalysis.strideEstimate.stride,
+      offsetX: rowAnalysis.offset,
+      offsetY: columnAnalysis.offset
+    } : null);
+    setCellBreakdown(null);
+    setProcessing(false);
+    setProgress(null);
+  };
+
   const performFFT = (imgDataParam?: ImageData) => {
     console.log("ImageFFTAnalyzer: performFFT called");
     
@@ -151,257 +465,135 @@ export const useImageAnalysis = () => {
       imageDataHeight: imgDataToProcess.height
     });
     
-    setProcessing(true);
-    
-    // Use setTimeout to ensure the spinner renders before starting heavy computation
-    setTimeout(() => {
+    // A new analysis replaces whatever is still running
+    cancelAnalysis();
     
-    // Generate 30 random vertical line positions
-    const lines: number[] = [];
-    const usedPositions = new Set<number>();
-    const imgWidth = imgDataToProcess.width;
-    
-    while (lines.length < 30 && lines.length < imgWidth) {
-      const x = Math.floor(Math.random() * imgWidth);
-      if (!usedPositions.has(x)) {
-        usedPositions.add(x);
-        lines.push(x);
-      }
-    }
-    
-    setSelectedLines(lines);
-    
-    // Extract the pixel data for each line, calculate derivatives, and perform FFT
-    const results: FFTResult[] = [];
-    
-    for (const x of lines) {
-      // Extract the vertical line (all y values for this x)
-      const lineData: number[] = [];
-      
-      for (let y = 0; y < imgDataToProcess.height; y++) {
-        const index = (y * imgDataToProcess.width + x) * 4;
-        // Use grayscale value (average of RGB)
-        const gray = (imgDataToProcess.data[index] + imgDataToProcess.data[index + 1] + imgDataToProcess.data[index + 2]) / 3;
-        lineData.push(gray);
-      }
-      
-      // Calculate the derivative manually (since mathjs doesn't have a diff function)
-      const derivatives: number[] = [];
-      for (let i = 1; i < lineData.length; i++) {
-        derivatives.push(Math.abs(lineData[i] - lineData[i - 1]));
-      }
-      
-      // Perform FFT on the derivatives
-      // Use type assertion to handle the conversion
-      const fft = math.fft(derivatives as unknown as math.Complex[]);
-      
-      // Calculate magnitudes more efficiently
-      const magnitudes: number[] = [];
-      for (let i = 0; i < fft.length; i++) {
-        // Get the magnitude of the complex number (sqrt of real^2 + imag^2)
-        const complex = fft[i];
-        const magnitude = Math.sqrt(
-          Math.pow(complex.re, 2) + Math.pow(complex.im, 2)
-        );
-        magnitudes.push(magnitude);
-      }
-      
-      results.push({
-        x,
-        fft,
-        magnitudes
-      });
-    }
-    
-    // Sum the FFT magnitudes across all lines using mathjs
-    const allMagnitudes = results.map(result => result.magnitudes);
-    
-    // Check if we have any results
-    if (allMagnitudes.length === 0) {
-      console.error("ImageFFTAnalyzer: No FFT results to process");
-      setProcessing(false);
-      return;
-    }
-    
-    // Use math.js matrix operations to handle potentially varying lengths
-    const magnitudeLengths = allMagnitudes.map(m => m.length);
-    if (magnitudeLengths.length === 0 || Math.max(...magnitudeLengths) === 0) {
-      console.error("ImageFFTAnalyzer: Invalid magnitude lengths", magnitudeLengths);
-      setProcessing(false);
-      return;
-    }
-    
-    const maxLength = Math.max(...magnitudeLengths);
-    
-    // Make sure we have a valid height value
-    const imgHeight = imgDataToProcess.height;
-    console.log("ImageFFTAnalyzer: Image height for FFT", imgHeight);
-    
-    // Calculate maxFreq with a safety check
-    const maxFreq = Math.max(1, Math.min(maxLength, Math.floor(imgHeight / 2)));
-    
-    // Ensure maxFreq is a valid array length (positive integer within safe limits)
-    const safeMaxFreq = Math.min(maxFreq, 10000); // Limit to a reasonable size
-    console.log("ImageFFTAnalyzer: maxLength and maxFreq", { maxLength, maxFreq, safeMaxFreq });
-    
-    // Build a combined array summing across all FFT results
-    const combinedMagnitudes: number[] = Array(safeMaxFreq).fill(0);
-    for (let i = 0; i < safeMaxFreq; i++) {
-      for (const magnitudes of allMagnitudes) {
-        if (i < magnitudes.length) {
-          combinedMagnitudes[i] += magnitudes[i];
-        }
-      }
-    }
-    
-    // Apply Gaussian smoothing to the combined FFT
-    const smoothedMagnitudes = applyGaussianSmoothing(combinedMagnitudes, 2, 7);
-    
-    // Find the dominant frequency (skip the first few frequencies which are often DC/low components)
-    // Start from index 5 to avoid very low frequencies
-    const startIndex = 5;
-    let maxMagnitude = 0;
-    let peakFrequency = 0;
-    
-    for (let i = startIndex; i < smoothedMagnitudes.length; i++) {
-      if (smoothedMagnitudes[i] > maxMagnitude) {
-        maxMagnitude = smoothedMagnitudes[i];
-        peakFrequency = i;
-      }
-    }
-    
-    console.log("ImageFFTAnalyzer: Setting dominant frequency to", peakFrequency);
-    setDominantFrequency(peakFrequency);
-    setFftResults(results);
-    setCombinedFFT(combinedMagnitudes);
-    setSmoothedFFT(smoothedMagnitudes);
-    setProcessing(false);
-    
-    // Draw the lines on the canvas
-    visualizeResults();
+    const requestId = ++latestRequestIdRef.current;
+    activeRequestIdRef.current = requestId;
+    setProcessing(true);
+    setProgress({ stage: 'columns', fraction: 0 });
+    
+    postToWorker(imgDataToProcess, {
+      type: 'analyze',
+      requestId,
+      options: {
+        peakSearch: peakSearchOptions,
+        lineSampling: lineSamplingOptions,
+        sampling: samplingOptions,
+        edgeSignal,
+        preprocessing: preprocessingOptions
+      },
+      deskew: deskewEnabled,
+      gridMode
+    });
+  };
+
+  // Compute the 2D spectrum of the derivative image in the worker
+  const requestSpectrum2D = (options: Spectrum2DOptions = spectrum2DOptions) => {
+    if (!analyzedImageData) return;
     
-    // Generate pixel samples based on the detected grid
-    if (peakFrequency > 0) {
-      console.log("ImageFFTAnalyzer: Peak frequency > 0, calling generatePixelSamples with", peakFrequency);
-      generatePixelSamples(peakFrequency, imgDataToProcess);
-    } else {
-      console.log("ImageFFTAnalyzer: Peak frequency <= 0, NOT calling generatePixelSamples", { peakFrequency });
-    }
-    }, 10); // 10ms delay to ensure spinner renders
+    const requestId = ++latestSpectrumRequestIdRef.current;
+    postToWorker(analyzedImageData, { type: 'spectrum2d', requestId, options });
   };
-  
-  // Apply Gaussian smoothing to the FFT data
-  const applyGaussianSmoothing = (data: number[], sigma: number, kernelSize: number): number[] => {
-    // Ensure kernel size is odd
-    const size = kernelSize % 2 === 0 ? kernelSize + 1 : kernelSize;
-    const radius = Math.floor(size / 2);
-    
-    // Create Gaussian kernel
-    const kernel: number[] = [];
-    let sum = 0;
-    
-    for (let i = -radius; i <= radius; i++) {
-      const value = Math.exp(-(i * i) / (2 * sigma * sigma));
-      kernel.push(value);
-      sum += value;
+
+  // Draw every cell boundary of the grid along both axes
+  const drawGridOverlay = (ctx: CanvasRenderingContext2D, grid: GridGeometry) => {
+    ctx.save();
+    ctx.strokeStyle = gridOverlay.color;
+    ctx.globalAlpha = gridOverlay.opacity;
+    ctx.lineWidth = 1;
+    
+    // Boundaries sit at (k + offset) * stride; start one cell early so the
+    // partial cell before the offset is closed too
+    ctx.beginPath();
+    for (let x = (grid.offsetX - 1) * grid.strideX; x <= analyzedWidth; x += grid.strideX) {
+      if (x < 0) continue;
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, analyzedHeight);
     }
-    
-    // Normalize kernel
-    for (let i = 0; i < kernel.length; i++) {
-      kernel[i] /= sum;
+    for (let y = (grid.offsetY - 1) * grid.strideY; y <= analyzedHeight; y += grid.strideY) {
+      if (y < 0) continue;
+      ctx.moveTo(0, y);
+      ctx.lineTo(analyzedWidth, y);
     }
-    
-    // Apply convolution
-    const result: number[] = [];
-    
-    for (let i = 0; i < data.length; i++) {
-      let value = 0;
-      
-      for (let j = -radius; j <= radius; j++) {
-        const index = i + j;
-        
-        if (index >= 0 && index < data.length) {
-          value += data[index] * kernel[j + radius];
-        }
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  // Draw warped boundaries as polylines through their band positions,
+  // carried straight on to the image edges
+  const drawWarpedGridOverlay = (ctx: CanvasRenderingContext2D, grid: WarpedGrid) => {
+    ctx.save();
+    ctx.strokeStyle = gridOverlay.color;
+    ctx.globalAlpha = gridOverlay.opacity;
+    ctx.lineWidth = 1;
+    
+    ctx.beginPath();
+    grid.columns.positions.forEach((_, k) => {
+      ctx.moveTo(boundaryAt(grid.columns, k, 0), 0);
+      grid.columns.bandCenters.forEach((y, band) => ctx.lineTo(grid.columns.positions[k][band], y));
+      ctx.lineTo(boundaryAt(grid.columns, k, analyzedHeight), analyzedHeight);
+    });
+    grid.rows.positions.forEach((_, k) => {
+      ctx.moveTo(0, boundaryAt(grid.rows, k, 0));
+      grid.rows.bandCenters.forEach((x, band) => ctx.lineTo(x, grid.rows.positions[k][band]));
+      ctx.lineTo(analyzedWidth, boundaryAt(grid.rows, k, analyzedWidth));
+    });
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  // Tint each sampled cell from green (every pixel matches the sampled color)
+  // to red (none do) and outline the cell being inspected
+  const drawAmbiguityOverlay = (ctx: CanvasRenderingContext2D, grid: GridGeometry) => {
+    for (const sample of pixelSamples) {
+      ctx.fillStyle = `hsla(${Math.round(sample.agreement * 120)}, 90%, 50%, 0.45)`;
+      if (warpedGrid) {
+        const [left, top, right, bottom] = warpedCellBounds(warpedGrid, sample.gridX, sample.gridY);
+        ctx.fillRect(left, top, right - left, bottom - top);
+      } else {
+        const left = (sample.gridX + grid.offsetX) * grid.strideX;
+        const top = (sample.gridY + grid.offsetY) * grid.strideY;
+        ctx.fillRect(left, top, grid.strideX, grid.strideY);
       }
-      
-      result.push(value);
     }
     
-    return result;
+    if (cellBreakdown) {
+      const [left, top, right, bottom] = cellBreakdown.bounds;
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 3;
+      ctx.strokeRect(left, top, right - left, bottom - top);
+      ctx.strokeStyle = 'black';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(left, top, right - left, bottom - top);
+    }
   };
-  
-  // Generate pixel samples based on the detected grid
-  const generatePixelSamples = (frequency: number, imgDataParam?: ImageData) => {
-    console.log("ImageFFTAnalyzer: generatePixelSamples called with frequency", frequency);
-    
-    // Use the provided image data or fall back to the state
-    const imgDataToProcess = imgDataParam || imageData;
-    
-    if (!imgDataToProcess || frequency <= 0) {
-      console.log("ImageFFTAnalyzer: generatePixelSamples early return", {
-        hasImageData: !!imgDataToProcess,
-        frequency
-      });
+
+  // Sample taken from the inspected cell, if the current samples include it
+  const inspectedSample = cellBreakdown
+    ? pixelSamples.find(sample => sample.gridX === cellBreakdown.gridX && sample.gridY === cellBreakdown.gridY) ?? null
+    : null;
+
+  // Show the pixel breakdown of the cell under an image position
+  const inspectCellAt = (x: number, y: number) => {
+    if (!analyzedImageData || !sampledGrid) return;
+    
+    if (warpedGrid) {
+      const cell = warpedCellAt(warpedGrid, x, y);
+      setCellBreakdown(cell
+        ? describeWarpedCell(analyzedImageData, warpedGrid, cell.gridX, cell.gridY, samplingOptions.margin)
+        : null);
       return;
     }
     
-    const imgWidth = imgDataToProcess.width;
-    const imgHeight = imgDataToProcess.height;
-    
-    const pixelSpacing = imgHeight / frequency;
-    const estimatedWidth = Math.round(imgWidth / pixelSpacing);
-    const estimatedHeight = Math.round(imgHeight / pixelSpacing);
-    
-    console.log("ImageFFTAnalyzer: generatePixelSamples calculations", {
-      imgWidth,
-      imgHeight,
-      pixelSpacing,
-      estimatedWidth,
-      estimatedHeight
-    });
-    
-    // Create samples array to store the sampled pixels
-    const samples: PixelSample[] = [];
-    
-    // Sample one pixel per detected grid cell
-    for (let gridY = 0; gridY < estimatedHeight; gridY++) {
-      for (let gridX = 0; gridX < estimatedWidth; gridX++) {
-        // Calculate the center of each grid cell in the original image
-        const centerX = Math.floor((gridX + 0.5) * pixelSpacing);
-        const centerY = Math.floor((gridY + 0.5) * pixelSpacing);
-        
-        // Ensure we're within bounds
-        if (centerX < imgWidth && centerY < imgHeight) {
-          // Get the pixel color at this position
-          const index = (centerY * imgWidth + centerX) * 4;
-          const color: [number, number, number, number] = [
-            imgDataToProcess.data[index],
-            imgDataToProcess.data[index + 1],
-            imgDataToProcess.data[index + 2],
-            imgDataToProcess.data[index + 3]
-          ];
-          
-          // Store the sample
-          samples.push({
-            x: centerX,
-            y: centerY,
-            color
-          });
-        }
-      }
-    }
-    
-    // Store the samples for visualization
-    console.log("ImageFFTAnalyzer: Setting pixelSamples with", samples.length, "samples", {
-      timestamp: new Date().toISOString(),
-      source: "generatePixelSamples"
-    });
-    setPixelSamples(samples);
+    const cell = cellAt(sampledGrid, x, y);
+    setCellBreakdown(cell
+      ? describeCell(analyzedImageData, sampledGrid, cell.gridX, cell.gridY, samplingOptions.margin)
+      : null);
   };
 
   const visualizeResults = () => {
-    if (!originalImage || selectedLines.length === 0) return;
+    if (!originalImage || (selectedColumns.length === 0 && selectedRows.length === 0)) return;
     
     // Draw original image with highlighted lines
     const canvas = canvasRef.current;
@@ -410,248 +602,144 @@ export const useImageAnalysis = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
-    ctx.drawImage(originalImage, 0, 0);
-    
-    // Highlight the selected vertical lines
-    ctx.strokeStyle = 'red';
-    ctx.lineWidth = 2;
-    
-    for (const x of selectedLines) {
-      ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, imageHeight);
-      ctx.stroke();
+    // Show the straightened image when the grid was detected on it
+    if (canvas.width !== analyzedWidth || canvas.height !== analyzedHeight) {
+      canvas.width = analyzedWidth;
+      canvas.height = analyzedHeight;
+    }
+    if (deskewedImageData) {
+      ctx.putImageData(deskewedImageData, 0, 0);
+    } else {
+      ctx.drawImage(originalImage, 0, 0);
     }
     
-    // Draw dots at each sampling location if we have samples
-    if (pixelSamples.length > 0) {
-      ctx.fillStyle = 'rgba(0, 0, 255, 0.7)';
-      
-      for (const sample of pixelSamples) {
+    if (overlayMode === 'ambiguity' && sampledGrid) {
+      drawAmbiguityOverlay(ctx, sampledGrid);
+    } else {
+      // Highlight the selected vertical and horizontal lines
+      ctx.strokeStyle = 'red';
+      ctx.lineWidth = 2;
+    
+      for (const x of selectedColumns) {
         ctx.beginPath();
-        ctx.arc(sample.x, sample.y, 2, 0, Math.PI * 2);
-        ctx.fill();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, analyzedHeight);
+        ctx.stroke();
       }
-    }
     
-    // Draw horizontal pattern lines at the dominant frequency if available
-    if (dominantFrequency && dominantFrequency > 0) {
-      const lineSpacing = imageHeight / dominantFrequency;
-      
-      ctx.strokeStyle = 'rgba(0, 255, 0, 0.5)'; // Semi-transparent green
-      ctx.lineWidth = 1;
-      ctx.setLineDash([5, 5]); // Dashed line pattern
-      
-      for (let y = 0; y < imageHeight; y += lineSpacing) {
+      for (const y of selectedRows) {
         ctx.beginPath();
         ctx.moveTo(0, y);
-        ctx.lineTo(imageWidth, y);
+        ctx.lineTo(analyzedWidth, y);
         ctx.stroke();
       }
-      
-      ctx.setLineDash([]); // Reset line dash
-    }
     
-    // Draw FFT results as a single line diagram
-    if (combinedFFT.length > 0 && smoothedFFT.length > 0) {
-      const resultCanvas = resultCanvasRef.current;
-      if (!resultCanvas) return;
-      
-      resultCanvas.width = 800;
-      resultCanvas.height = 400;
+      // Draw dots at each sampling location if we have samples
+      if (pixelSamples.length > 0) {
+        ctx.fillStyle = 'rgba(0, 0, 255, 0.7)';
       
-      const rctx = resultCanvas.getContext('2d');
-      if (!rctx) return;
-      
-      rctx.fillStyle = 'white';
-      rctx.fillRect(0, 0, resultCanvas.width, resultCanvas.height);
-      
-      const padding = 30;
-      const graphWidth = resultCanvas.width - (2 * padding);
-      const graphHeight = resultCanvas.height - (2 * padding);
-      
-      // Find max magnitude for scaling using mathjs
-      const maxMagnitude = math.max([...combinedFFT, ...smoothedFFT]);
-      
-      // Draw the axes
-      rctx.strokeStyle = 'black';
-      rctx.lineWidth = 1;
-      
-      // Draw horizontal axis (frequency)
-      rctx.beginPath();
-      rctx.moveTo(padding, resultCanvas.height - padding);
-      rctx.lineTo(resultCanvas.width - padding, resultCanvas.height - padding);
-      rctx.stroke();
-      
-      // Draw vertical axis (magnitude)
-      rctx.beginPath();
-      rctx.moveTo(padding, padding);
-      rctx.lineTo(padding, resultCanvas.height - padding);
-      rctx.stroke();
-      
-      // Draw axis labels
-      rctx.fillStyle = 'black';
-      rctx.font = '12px Arial';
-      rctx.textAlign = 'center';
-      rctx.fillText('Frequency', resultCanvas.width / 2, resultCanvas.height - 5);
-      
-      rctx.save();
-      rctx.translate(10, resultCanvas.height / 2);
-      rctx.rotate(-Math.PI / 2);
-      rctx.fillText('Magnitude', 0, 0);
-      rctx.restore();
-      
-      // Skip the DC component (first value) for better scaling
-      const startFreq = 1;
-      const numFrequencies = Math.min(combinedFFT.length - startFreq, 200);
-      
-      // Draw vertical lines for each frequency in the combined FFT
-      for (let i = 0; i < numFrequencies; i++) {
-        const freq = i + startFreq;
-        const x = padding + (i / numFrequencies) * graphWidth;
-        const magnitude = combinedFFT[freq] / maxMagnitude;
-        const height = magnitude * graphHeight;
-        
-        // Draw a thin vertical line for each frequency
-        rctx.fillStyle = `rgba(0, 0, 255, ${magnitude * 0.8 + 0.2})`;
-        rctx.fillRect(
-          x,
-          resultCanvas.height - padding - height,
-          1,
-          height
-        );
-      }
-      
-      // Draw the smoothed FFT as a line on top
-      if (smoothedFFT && smoothedFFT.length > 0) {
-        rctx.strokeStyle = 'rgba(255, 0, 0, 0.8)';
-        rctx.lineWidth = 2;
-        rctx.beginPath();
-        
-        for (let i = 0; i < numFrequencies; i++) {
-          const freq = i + startFreq;
-          const x = padding + (i / numFrequencies) * graphWidth;
-          const magnitude = smoothedFFT[freq] / maxMagnitude;
-          const y = resultCanvas.height - padding - (magnitude * graphHeight);
-          
-          if (i === 0) {
-            rctx.moveTo(x, y);
-          } else {
-            rctx.lineTo(x, y);
-          }
+        for (const sample of pixelSamples) {
+          ctx.beginPath();
+          ctx.arc(sample.x, sample.y, 2, 0, Math.PI * 2);
+          ctx.fill();
         }
-        
-        rctx.stroke();
-        
-        // Add a label for the smoothed line
-        rctx.fillStyle = 'rgba(255, 0, 0, 0.8)';
-        rctx.font = '12px Arial';
-        rctx.textAlign = 'left';
-        rctx.fillText('Gaussian Smoothed (σ=2, kernel size=7)', padding + 10, padding + 20);
-      }
-      
-      // Draw frequency markers
-      const numMarkers = 10;
-      rctx.fillStyle = 'black';
-      for (let i = 0; i <= numMarkers; i++) {
-        const x = padding + (i / numMarkers) * graphWidth;
-        const freq = Math.round(startFreq + (i / numMarkers) * numFrequencies);
-        
-        rctx.beginPath();
-        rctx.moveTo(x, resultCanvas.height - padding);
-        rctx.lineTo(x, resultCanvas.height - padding + 5);
-        rctx.stroke();
-        
-        rctx.fillText(freq.toString(), x, resultCanvas.height - padding + 15);
-      }
-      
-      // Highlight the dominant frequency
-      if (dominantFrequency) {
-        const dominantX = padding + ((dominantFrequency - startFreq) / numFrequencies) * graphWidth;
-        
-        // Draw a vertical line at the dominant frequency
-        rctx.strokeStyle = 'green';
-        rctx.lineWidth = 2;
-        rctx.setLineDash([5, 5]);
-        rctx.beginPath();
-        rctx.moveTo(dominantX, padding);
-        rctx.lineTo(dominantX, resultCanvas.height - padding);
-        rctx.stroke();
-        rctx.setLineDash([]);
-        
-        // Add a label for the dominant frequency
-        rctx.fillStyle = 'green';
-        rctx.font = 'bold 14px Arial';
-        rctx.fillText(`Peak: ${dominantFrequency}`, dominantX, padding - 10);
-        rctx.font = '12px Arial';
-        
-        // Calculate what this frequency means in pixels
-        const pixelSpacing = imageHeight / dominantFrequency;
-        rctx.fillText(`(${pixelSpacing.toFixed(1)} pixels)`, dominantX, padding + 10);
-      }
-      
-      // Draw magnitude markers
-      const numMagMarkers = 5;
-      for (let i = 0; i <= numMagMarkers; i++) {
-        const y = resultCanvas.height - padding - (i / numMagMarkers) * graphHeight;
-        const mag = (i / numMagMarkers) * maxMagnitude;
-        
-        rctx.beginPath();
-        rctx.moveTo(padding - 5, y);
-        rctx.lineTo(padding, y);
-        rctx.stroke();
-        
-        rctx.textAlign = 'right';
-        rctx.fillText(mag.toFixed(0), padding - 8, y + 4);
       }
     }
+    
+    // Draw the grid the current samples were taken on, falling back to the
+    // detected one before any re-sampling
+    const grid = sampledGrid ?? (strideX && strideY ? { strideX, strideY, offsetX, offsetY } : null);
+    if (gridOverlay.visible && warpedGrid) {
+      drawWarpedGridOverlay(ctx, warpedGrid);
+    } else if (gridOverlay.visible && grid) {
+      drawGridOverlay(ctx, grid);
+    }
   };
 
   // Reprocess samples and visualization with new offset/stride
-  const reprocessWithOffsetStride = (offset: number, stride: number) => {
-    if (!dominantFrequency || dominantFrequency <= 0 || !imageData) {
+  const reprocessWithOffsetStride = (
+    newOffsetX: number,
+    newOffsetY: number,
+    strideX: number,
+    strideY: number,
+    sampling: SamplingOptions = samplingOptions,
+    mode: GridMode = gridMode
+  ) => {
+    if (!dominantFrequencyX || !dominantFrequencyY || !analyzedImageData) {
       return;
     }
     
-    console.log("ImageFFTAnalyzer: reprocessWithOffsetStride called", { offset, stride });
+    console.log("ImageFFTAnalyzer: reprocessWithOffsetStride called", { newOffsetX, newOffsetY, strideX, strideY, sampling, mode });
     
-    // Use the same logic as generatePixelSamples but with offset/stride adjustments
-    const imgWidth = imageData.width;
-    const imgHeight = imageData.height;
+    const requestId = ++latestRequestIdRef.current;
+    activeRequestIdRef.current = requestId;
     
-    const adjustedPixelSpacing = stride;
-    const estimatedWidth = Math.round(imgWidth / adjustedPixelSpacing);
-    const estimatedHeight = Math.round(imgHeight / adjustedPixelSpacing);
+    postToWorker(analyzedImageData, {
+      type: 'sample',
+      requestId,
+      strideX,
+      strideY,
+      offsetX: newOffsetX,
+      offsetY: newOffsetY,
+      options: sampling,
+      gridMode: mode
+    });
+    setSampledGrid({ strideX, strideY, offsetX: newOffsetX, offsetY: newOffsetY });
+    setCellBreakdown(null);
+    // A refinement still queued in the worker is superseded by this request
+    setRefinement(null);
     
-    const samples: PixelSample[] = [];
+    // The worker's reply will trigger visualization via useEffect
+  };
+
+  // Make a frequency picked on the spectrum chart the axis's dominant one.
+  // Returns the stride and offset it implies for the caller to sample with.
+  const choosePeak = (axis: Axis, frequency: number): { stride: number; offset: number } | null => {
+    const results = fftResults.filter(result => result.axis === axis);
+    if (results.length === 0 || frequency <= 0) {
+      return null;
+    }
     
-    for (let gridY = 0; gridY < estimatedHeight; gridY++) {
-      for (let gridX = 0; gridX < estimatedWidth; gridX++) {
-        const centerX = Math.floor((gridX + 0.5 + offset) * adjustedPixelSpacing);
-        const centerY = Math.floor((gridY + 0.5 + offset) * adjustedPixelSpacing);
-        
-        if (centerX < imgWidth && centerY < imgHeight) {
-          const index = (centerY * imgWidth + centerX) * 4;
-          const color: [number, number, number, number] = [
-            imageData.data[index],
-            imageData.data[index + 1],
-            imageData.data[index + 2],
-            imageData.data[index + 3]
-          ];
-          
-          samples.push({
-            x: centerX,
-            y: centerY,
-            color
-          });
-        }
-      }
+    const stride = results[0].derivatives.length / frequency;
+    const offset = estimateGridOffset(results, stride);
+    console.log("ImageFFTAnalyzer: Peak chosen on the spectrum", { axis, frequency, stride, offset });
+    
+    if (axis === 'x') {
+      setDominantFrequencyX(frequency);
+    } else {
+      setDominantFrequencyY(frequency);
+    }
+    
+    return { stride, offset };
+  };
+
+  // Search stride and offset around the given grid for the lowest
+  // re-upscale error. Progress and the final grid arrive as worker messages.
+  const autoRefine = (
+    startOffsetX: number,
+    startOffsetY: number,
+    startStrideX: number,
+    startStrideY: number
+  ) => {
+    if (!dominantFrequencyX || !dominantFrequencyY || !analyzedImageData) {
+      return;
     }
     
-    console.log("ImageFFTAnalyzer: reprocessWithOffsetStride setting new samples", samples.length);
-    setPixelSamples(samples);
+    const geometry = { strideX: startStrideX, strideY: startStrideY, offsetX: startOffsetX, offsetY: startOffsetY };
+    console.log("ImageFFTAnalyzer: autoRefine called", { geometry, samplingOptions, edgeSignal });
+    
+    const requestId = ++latestRequestIdRef.current;
+    activeRequestIdRef.current = requestId;
+    setRefinement({ fraction: 0, best: geometry, mse: Infinity });
     
-    // State update will trigger visualization via useEffect
+    postToWorker(analyzedImageData, {
+      type: 'refine',
+      requestId,
+      geometry,
+      options: samplingOptions,
+      edgeSignal,
+      gridMode
+    });
   };
 
   useEffect(() => {
@@ -666,23 +754,96 @@ export const useImageAnalysis = () => {
     }
   }, [pixelSamples]);
 
+  useEffect(() => {
+    if (fftResults.length > 0) {
+      requestSpectrum2D();
+    }
+  }, [fftResults, spectrum2DOptions]);
+
+  useEffect(() => {
+    if (pixelSamples.length > 0) {
+      visualizeResults();
+    }
+  }, [overlayMode, cellBreakdown, gridOverlay]);
+
+  // Shut the worker down with the component
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
   return {
     imageData,
     originalImage,
-    imageWidth,
-    imageHeight,
+    // Dimensions of the analyzed image, which straightening crops
+    imageWidth: analyzedWidth,
+    imageHeight: analyzedHeight,
     fftResults,
-    combinedFFT,
-    smoothedFFT,
-    selectedLines,
-    dominantFrequency,
+    combinedFFTX,
+    combinedFFTY,
+    smoothedFFTX,
+    smoothedFFTY,
+    spectrumResolution,
+    selectedColumns,
+    selectedRows,
+    dominantFrequencyX,
+    dominantFrequencyY,
+    strideX,
+    strideY,
+    strideEstimateX,
+    strideEstimateY,
+    candidatesX,
+    candidatesY,
+    blockPeakX,
+    blockPeakY,
+    detectionMethodX,
+    detectionMethodY,
+    peakSearchOptions,
+    setPeakSearchOptions,
+    lineSamplingOptions,
+    setLineSamplingOptions,
+    samplingOptions,
+    setSamplingOptions,
+    edgeSignal,
+    setEdgeSignal,
+    preprocessingOptions,
+    setPreprocessingOptions,
+    analysisOptions,
+    offsetX,
+    offsetY,
     pixelSamples,
+    comparison,
+    refinement,
+    refinedGrid,
+    spectrum2D,
+    spectrum2DOptions,
+    setSpectrum2DOptions,
+    requestSpectrum2D,
+    deskewEnabled,
+    setDeskewEnabled,
+    skewEstimate,
+    deskewed: deskewedImageData !== null,
+    gridMode,
+    setGridMode,
+    warpedGrid,
+    overlayMode,
+    setOverlayMode,
+    gridOverlay,
+    setGridOverlay,
+    cellBreakdown,
+    inspectedSample,
+    inspectCellAt,
     processing,
+    progress,
     canvasRef,
-    resultCanvasRef,
     handleImageUpload,
     performFFT,
     visualizeResults,
-    reprocessWithOffsetStride
+    reprocessWithOffsetStride,
+    choosePeak,
+    autoRefine,
+    cancelAnalysis
   };
 };
@@ -1,27 +1,52 @@
 import { useState, useRef, useEffect } from 'react';
-import { PixelSample } from './useImageAnalysis';
+import { PixelSample, RasterImage } from '../../../analysis/gridDetection';
+import { PaletteReductionOptions, reducePalette } from '../../../analysis/palette';
+import { PaletteSnapOptions, snapToPalette } from '../../../analysis/targetPalette';
+import {
+  buildColorHistogram,
+  ColorCount,
+  createTransparentVersion,
+  renderPixelArt,
+  trimTransparentPixels
+} from '../../../analysis/reconstruction';
 
-export interface ColorCount {
-  color: string; // Hex color
-  count: number;
-  rgba: [number, number, number, number]; // RGBA values
-}
+// Copy a raster into browser ImageData
+const toImageData = (image: RasterImage): ImageData =>
+  new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+
+// Encode a raster as a PNG data URL via an offscreen canvas
+const toDataURL = (image: RasterImage): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  
+  if (!ctx) return null;
+  
+  ctx.putImageData(toImageData(image), 0, 0);
+  return canvas.toDataURL('image/png');
+};
 
 export const usePixelArtGeneration = (
   imageData: ImageData | null,
   imageWidth: number,
   imageHeight: number,
-  dominantFrequency: number | null,
   pixelSamples: PixelSample[],
-  stride: number,
+  strideX: number,
+  strideY: number,
   enableTrimming: boolean = false,
-  skipTransparency: boolean = false
+  skipTransparency: boolean = false,
+  paletteOptions: PaletteReductionOptions | null = null,
+  snapOptions: PaletteSnapOptions | null = null
 ) => {
   const [generatedPixelArt, setGeneratedPixelArt] = useState<ImageData | null>(null);
   const [pixelArtDataURL, setPixelArtDataURL] = useState<string | null>(null);
   const [transparentPixelArtDataURL, setTransparentPixelArtDataURL] = useState<string | null>(null);
-  const [baseTransparentPixelArtDataURL, setBaseTransparentPixelArtDataURL] = useState<string | null>(null);
+  const [baseTransparentPixelArt, setBaseTransparentPixelArt] = useState<RasterImage | null>(null);
   const [colorHistogram, setColorHistogram] = useState<ColorCount[]>([]);
+  // The sprite as sampled, before palette reduction and snapping, for comparison
+  const [sampledPixelArtDataURL, setSampledPixelArtDataURL] = useState<string | null>(null);
+  const [sampledColorCount, setSampledColorCount] = useState<number>(0);
   
   const pixelArtCanvasRef = useRef<HTMLCanvasElement>(null);
   const transparentPixelArtCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -29,7 +54,8 @@ export const usePixelArtGeneration = (
 
   useEffect(() => {
     console.log("usePixelArtGeneration: useEffect triggered with", {
-      dominantFrequency,
+      strideX,
+      strideY,
       pixelSamplesLength: pixelSamples.length,
       hasImageData: !!imageData,
       imageDataDimensions: imageData ? `${imageData.width}x${imageData.height}` : 'none',
@@ -38,137 +64,75 @@ export const usePixelArtGeneration = (
       effectTriggered: new Date().toISOString()
     });
     
-    if (dominantFrequency && dominantFrequency > 0 && pixelSamples.length > 0 && imageData) {
+    if (strideX > 0 && strideY > 0 && pixelSamples.length > 0 && imageData) {
       console.log("usePixelArtGeneration: Conditions met, calling generatePixelArt()");
       generatePixelArt();
     } else {
       console.log("usePixelArtGeneration: Conditions NOT met for generatePixelArt:", {
-        hasDominantFrequency: !!dominantFrequency,
-        dominantFrequencyPositive: dominantFrequency ? dominantFrequency > 0 : false,
+        strideXPositive: strideX > 0,
+        strideYPositive: strideY > 0,
         hasPixelSamples: pixelSamples.length > 0,
         hasImageData: !!imageData
       });
     }
-  }, [dominantFrequency, pixelSamples, imageData, stride, skipTransparency]);
+  }, [pixelSamples, imageData, strideX, strideY, skipTransparency, paletteOptions, snapOptions]);
 
   // Separate effect for handling trimming when checkbox changes
   useEffect(() => {
-    console.log("Trimming useEffect triggered", { enableTrimming, hasBaseTransparent: !!baseTransparentPixelArtDataURL });
-    if (baseTransparentPixelArtDataURL) {
+    console.log("Trimming useEffect triggered", { enableTrimming, hasBaseTransparent: !!baseTransparentPixelArt });
+    if (baseTransparentPixelArt) {
       if (enableTrimming) {
         console.log("Applying trimming...");
-        trimTransparentPixels(baseTransparentPixelArtDataURL);
+        // A completely transparent image has nothing to trim to, so keep it as is
+        const trimmed = trimTransparentPixels(baseTransparentPixelArt);
+        setTransparentPixelArtDataURL(toDataURL(trimmed ?? baseTransparentPixelArt));
       } else {
         console.log("Using base transparent version without trimming");
         // If trimming is disabled, use the base transparent version
-        setTransparentPixelArtDataURL(baseTransparentPixelArtDataURL);
+        setTransparentPixelArtDataURL(toDataURL(baseTransparentPixelArt));
       }
     }
-  }, [enableTrimming, baseTransparentPixelArtDataURL]);
+  }, [enableTrimming, baseTransparentPixelArt]);
 
   const generatePixelArt = () => {
-    if (!imageData || !dominantFrequency || dominantFrequency <= 0 || pixelSamples.length === 0) {
+    if (!imageData || strideX <= 0 || strideY <= 0 || pixelSamples.length === 0) {
       return;
     }
 
     console.log("usePixelArtGeneration: generatePixelArt called", { 
-      dominantFrequency, 
+      strideX,
+      strideY,
       samplesCount: pixelSamples.length 
     });
     
-    const pixelSpacing = stride;
-    const estimatedWidth = Math.round(imageWidth / pixelSpacing);
-    const estimatedHeight = Math.round(imageHeight / pixelSpacing);
-    
-    // Create a canvas to generate the pixel art
-    const canvas = document.createElement('canvas');
-    canvas.width = estimatedWidth;
-    canvas.height = estimatedHeight;
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) return;
-    
-    // Clear the canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Draw each sampled pixel as a 1x1 pixel in the new canvas
-    for (let gridY = 0; gridY < estimatedHeight; gridY++) {
-      for (let gridX = 0; gridX < estimatedWidth; gridX++) {
-        const sampleIndex = gridY * estimatedWidth + gridX;
-        
-        if (sampleIndex < pixelSamples.length) {
-          const sample = pixelSamples[sampleIndex];
-          const [r, g, b, a] = sample.color;
-          
-          ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${a / 255})`;
-          ctx.fillRect(gridX, gridY, 1, 1);
-        }
-      }
-    }
-    
-    // Get the generated pixel art image data
-    const generatedData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    setGeneratedPixelArt(generatedData);
+    // Draw each sampled pixel as a 1x1 pixel in the new image
+    const sampledPixelArt = renderPixelArt(pixelSamples);
+    setSampledPixelArtDataURL(toDataURL(sampledPixelArt));
+    setSampledColorCount(buildColorHistogram(sampledPixelArt).length);
     
-    // Convert canvas to data URL for display and download
-    const dataURL = canvas.toDataURL('image/png');
-    setPixelArtDataURL(dataURL);
+    // Fold near-duplicate colors together if palette reduction is on
+    const reducedPixelArt = paletteOptions ? reducePalette(sampledPixelArt, paletteOptions) : sampledPixelArt;
     
-    // No need to draw to canvas as we're using data URLs directly
-    
-    // Generate color histogram and optionally create transparent version
-    generateColorHistogram(generatedData, estimatedWidth, estimatedHeight, canvas, skipTransparency);
-  };
-  
-  
-  // Generate color histogram from the pixel art data
-  const generateColorHistogram = (
-    pixelArtData: ImageData, 
-    width: number, 
-    height: number, 
-    pixelArtCanvas: HTMLCanvasElement,
-    skipTransparency: boolean = false
-  ) => {
-    const data = pixelArtData.data;
-    const colorCounts: Record<string, ColorCount> = {};
+    // Then snap what's left to the target palette, if one is picked
+    const pixelArt = snapOptions ? snapToPalette(reducedPixelArt, snapOptions) : reducedPixelArt;
+    setGeneratedPixelArt(toImageData(pixelArt));
     
-    // Count occurrences of each color
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      const a = data[i + 3];
-      
-      // Skip fully transparent pixels
-      if (a === 0) continue;
-      
-      // Create a hex color key for the map
-      const colorKey = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-      
-      if (colorCounts[colorKey]) {
-        colorCounts[colorKey].count++;
-      } else {
-        colorCounts[colorKey] = {
-          color: colorKey,
-          count: 1,
-          rgba: [r, g, b, a]
-        };
-      }
-    }
+    // Convert to a data URL for display and download
+    setPixelArtDataURL(toDataURL(pixelArt));
     
-    // Convert to array and sort by count (descending)
-    const sortedColors = Object.values(colorCounts).sort((a, b) => b.count - a.count);
+    // Generate color histogram, sorted by count (descending)
+    const sortedColors = buildColorHistogram(pixelArt);
     setColorHistogram(sortedColors);
-    
-    // Draw the histogram
     drawColorHistogram(sortedColors);
     
-    // Create transparent version only if not skipping transparency
+    // Make the most common color transparent where it touches the edges,
+    // unless we're in texture mode
     if (!skipTransparency && sortedColors.length > 0) {
-      createTransparentVersion(sortedColors[0].rgba, pixelArtData, width, height, pixelArtCanvas);
+      setBaseTransparentPixelArt(createTransparentVersion(pixelArt, sortedColors[0].rgba));
+      console.log("usePixelArtGeneration: Base transparent version created");
     } else if (skipTransparency) {
       // For texture mode, don't create transparency - set transparent URLs to null
-      setBaseTransparentPixelArtDataURL(null);
+      setBaseTransparentPixelArt(null);
       setTransparentPixelArtDataURL(null);
       console.log("usePixelArtGeneration: Skipping transparency creation for texture mode");
     }
@@ -243,256 +207,13 @@ export const usePixelArtGeneration = (
     }
   };
   
-  // Create a version of the pixel art with the most common color made transparent where it touches the edges
-  const createTransparentVersion = (
-    targetColor: [number, number, number, number], 
-    pixelArtData: ImageData, 
-    width: number, 
-    height: number,
-    originalCanvas: HTMLCanvasElement
-  ) => {
-    // Create a new canvas for the transparent version
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) return;
-    
-    // Create a new ImageData object
-    const newImgData = new ImageData(
-      new Uint8ClampedArray(pixelArtData.data),
-      width,
-      height
-    );
-    const data = newImgData.data;
-    
-    // Create a visited array for flood fill
-    const visited = new Array(width * height).fill(false);
-    
-    // Queue for flood fill
-    const queue: [number, number][] = [];
-    
-    // Helper function to check if a pixel matches the target color
-    const isTargetColor = (x: number, y: number): boolean => {
-      const index = (y * width + x) * 4;
-      const [tr, tg, tb] = targetColor;
-      
-      // Allow some tolerance for color matching
-      const tolerance = 5;
-      const r = data[index];
-      const g = data[index + 1];
-      const b = data[index + 2];
-      
-      return (
-        Math.abs(r - tr) <= tolerance &&
-        Math.abs(g - tg) <= tolerance &&
-        Math.abs(b - tb) <= tolerance
-      );
-    };
-    
-    // Add edge pixels that match the target color to the queue
-    // Top and bottom edges
-    for (let x = 0; x < width; x++) {
-      if (isTargetColor(x, 0)) {
-        queue.push([x, 0]);
-        visited[0 * width + x] = true;
-      }
-      if (isTargetColor(x, height - 1)) {
-        queue.push([x, height - 1]);
-        visited[(height - 1) * width + x] = true;
-      }
-    }
-    
-    // Left and right edges
-    for (let y = 0; y < height; y++) {
-      if (isTargetColor(0, y)) {
-        queue.push([0, y]);
-        visited[y * width + 0] = true;
-      }
-      if (isTargetColor(width - 1, y)) {
-        queue.push([width - 1, y]);
-        visited[y * width + (width - 1)] = true;
-      }
-    }
-    
-    // Perform flood fill
-    while (queue.length > 0) {
-      const [x, y] = queue.shift()!;
-      const index = (y * width + x) * 4;
-      
-      // Make this pixel transparent
-      data[index + 3] = 0;
-      
-      // Check the 4 adjacent pixels
-      const directions = [[-1, 0], [1, 0], [0, -1], [0, 1]];
-      
-      for (const [dx, dy] of directions) {
-        const nx = x + dx;
-        const ny = y + dy;
-        
-        // Check if the new position is within bounds
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const newIndex = ny * width + nx;
-          
-          // If not visited and matches the target color, add to queue
-          if (!visited[newIndex] && isTargetColor(nx, ny)) {
-            queue.push([nx, ny]);
-            visited[newIndex] = true;
-          }
-        }
-      }
-    }
-    
-    // Put the modified image data back
-    ctx.putImageData(newImgData, 0, 0);
-    
-    // Convert to data URL
-    const dataURL = canvas.toDataURL('image/png');
-    
-    // Store the base transparent version (before any trimming)
-    setBaseTransparentPixelArtDataURL(dataURL);
-    
-    // Initially set the transparent version to the base version
-    // The trimming useEffect will handle applying trimming if enabled
-    setTransparentPixelArtDataURL(dataURL);
-    
-    console.log("usePixelArtGeneration: Base transparent version created");
-  };
-
-  // Trim transparent pixels from edges, leaving 1-pixel margin
-  const trimTransparentPixels = (originalDataURL: string) => {
-    console.log("trimTransparentPixels called with dataURL");
-    const img = new Image();
-    img.onload = () => {
-      console.log("Image loaded for trimming, size:", img.width, "x", img.height);
-      // Create canvas to work with the image
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) return;
-      
-      // Draw the image to get pixel data
-      ctx.drawImage(img, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      
-      // Find content bounds (non-transparent pixels)
-      const bounds = findContentBounds(imageData);
-      
-      if (!bounds) {
-        console.log("No content found in image, using original");
-        // Image is completely transparent, return original
-        return;
-      }
-      
-      console.log("Content bounds found:", bounds);
-      
-      const [left, top, right, bottom] = bounds;
-      const width = canvas.width;
-      const height = canvas.height;
-      
-      // Check how much margin we have around the content
-      const marginLeft = left;
-      const marginTop = top;
-      const marginRight = width - right;
-      const marginBottom = height - bottom;
-      const margin = 1;
-      
-      // Check if we have sufficient margin on all sides
-      const hasSufficientMargin = (marginLeft >= margin && marginTop >= margin &&
-                                 marginRight >= margin && marginBottom >= margin);
-      
-      let trimmedCanvas: HTMLCanvasElement;
-      let trimmedCtx: CanvasRenderingContext2D;
-      
-      if (hasSufficientMargin) {
-        // We have enough margin, just crop with the desired margin
-        const newLeft = left - margin;
-        const newTop = top - margin;
-        const newWidth = (right - left) + 2 * margin;
-        const newHeight = (bottom - top) + 2 * margin;
-        
-        trimmedCanvas = document.createElement('canvas');
-        trimmedCanvas.width = newWidth;
-        trimmedCanvas.height = newHeight;
-        trimmedCtx = trimmedCanvas.getContext('2d')!;
-        
-        // Copy the cropped region
-        const croppedData = ctx.getImageData(newLeft, newTop, newWidth, newHeight);
-        trimmedCtx.putImageData(croppedData, 0, 0);
-      } else {
-        // We need to add margin - create new canvas
-        const contentWidth = right - left;
-        const contentHeight = bottom - top;
-        const finalWidth = contentWidth + 2 * margin;
-        const finalHeight = contentHeight + 2 * margin;
-        
-        trimmedCanvas = document.createElement('canvas');
-        trimmedCanvas.width = finalWidth;
-        trimmedCanvas.height = finalHeight;
-        trimmedCtx = trimmedCanvas.getContext('2d')!;
-        
-        // Clear to transparent
-        trimmedCtx.clearRect(0, 0, finalWidth, finalHeight);
-        
-        // Extract just the content (no existing margin)
-        const contentData = ctx.getImageData(left, top, contentWidth, contentHeight);
-        
-        // Paste the content with margin offset
-        trimmedCtx.putImageData(contentData, margin, margin);
-      }
-      
-      // Update the transparent pixel art data URL with trimmed version
-      const trimmedDataURL = trimmedCanvas.toDataURL('image/png');
-      console.log("Trimmed version created, updating state");
-      setTransparentPixelArtDataURL(trimmedDataURL);
-    };
-    
-    img.src = originalDataURL;
-  };
-  
-  // Find the bounding box of non-transparent pixels in an ImageData
-  const findContentBounds = (imageData: ImageData): [number, number, number, number] | null => {
-    const data = imageData.data;
-    const width = imageData.width;
-    const height = imageData.height;
-    
-    let left = width;
-    let right = 0;
-    let top = height;
-    let bottom = 0;
-    let foundContent = false;
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const index = (y * width + x) * 4;
-        const alpha = data[index + 3];
-        
-        // If pixel is not fully transparent
-        if (alpha > 0) {
-          foundContent = true;
-          left = Math.min(left, x);
-          right = Math.max(right, x);
-          top = Math.min(top, y);
-          bottom = Math.max(bottom, y);
-        }
-      }
-    }
-    
-    if (!foundContent) {
-      return null;
-    }
-    
-    return [left, top, right + 1, bottom + 1];
-  };
-
   return {
     generatedPixelArt,
     pixelArtDataURL,
     transparentPixelArtDataURL,
     colorHistogram,
+    sampledPixelArtDataURL,
+    sampledColorCount,
     pixelArtCanvasRef,
     transparentPixelArtCanvasRef,
     histogramCanvasRef
@@ -5,6 +5,8 @@ import OriginalImageDisplay from './OriginalImageDisplay';
 import FFTResultsDisplay from './FFTResultsDisplay';
 import PixelArtDisplay from './PixelArtDisplay';
 import AnalysisSummary from './AnalysisSummary';
+import ReconstructionComparisonDisplay from './ReconstructionComparisonDisplay';
+import Spectrum2DDisplay from './Spectrum2DDisplay';
 import SavedPixelArtSidebar from './SavedPixelArtSidebar';
 import { useImageAnalysis } from './hooks/useImageAnalysis';
 import { usePixelArtGeneration } from './hooks/usePixelArtGeneration';
@@ -16,20 +18,28 @@ import TextureBatchInterface from '../TextureBatchInterface';
 import OffsetStrideSpinner from '../OffsetStrideSpinner';
 import ImageModal from '../ImageModal';
 import LoadingSpinner from '../LoadingSpinner';
+import { Axis, GridCandidate, GridGeometry, SamplingOptions } from '../../analysis/gridDetection';
+import { DEFAULT_PALETTE_REDUCTION_OPTIONS, PaletteReductionOptions } from '../../analysis/palette';
+import { PaletteSnapOptions } from '../../analysis/targetPalette';
+import { GridMode } from '../../analysis/warpedGrid';
 
 type Mode = 'analyze' | 'generate' | 'generate-batch' | 'orientation' | 'seasons' | 'texture';
 
 const ImageFFTAnalyzer: React.FC = () => {
   const [mode, setMode] = useState<Mode>('generate');
   const [prompt, setPrompt] = useState<string>('');
-  const [offset, setOffset] = useState<number>(0.0);
-  const [stride, setStride] = useState<number>(1.0);
+  const [offsetX, setOffsetX] = useState<number>(0.0);
+  const [offsetY, setOffsetY] = useState<number>(0.0);
+  const [strideX, setStrideX] = useState<number>(1.0);
+  const [strideY, setStrideY] = useState<number>(1.0);
   const [isFFTComplete, setIsFFTComplete] = useState<boolean>(false);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
   const [modalImageSrc, setModalImageSrc] = useState<string>('');
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(false);
   const [sidebarRefreshTrigger, setSidebarRefreshTrigger] = useState<number>(0);
   const [enableTrimming, setEnableTrimming] = useState<boolean>(false);
+  const [paletteOptions, setPaletteOptions] = useState<PaletteReductionOptions>(DEFAULT_PALETTE_REDUCTION_OPTIONS);
+  const [snapOptions, setSnapOptions] = useState<PaletteSnapOptions | null>(null);
   const addReferenceImageRef = React.useRef<((imageDataUrl: string) => void) | null>(null);
 
   const {
@@ -38,18 +48,70 @@ const ImageFFTAnalyzer: React.FC = () => {
     imageWidth,
     imageHeight,
     fftResults,
-    combinedFFT,
-    smoothedFFT,
-    selectedLines,
-    dominantFrequency,
+    combinedFFTX,
+    combinedFFTY,
+    smoothedFFTX,
+    smoothedFFTY,
+    spectrumResolution,
+    selectedColumns,
+    selectedRows,
+    dominantFrequencyX,
+    dominantFrequencyY,
+    strideX: detectedStrideX,
+    strideY: detectedStrideY,
+    strideEstimateX,
+    strideEstimateY,
+    candidatesX,
+    candidatesY,
+    blockPeakX,
+    blockPeakY,
+    detectionMethodX,
+    detectionMethodY,
+    peakSearchOptions,
+    setPeakSearchOptions,
+    lineSamplingOptions,
+    setLineSamplingOptions,
+    samplingOptions,
+    setSamplingOptions,
+    edgeSignal,
+    setEdgeSignal,
+    preprocessingOptions,
+    setPreprocessingOptions,
+    analysisOptions,
+    offsetX: detectedOffsetX,
+    offsetY: detectedOffsetY,
     pixelSamples,
+    comparison,
+    refinement,
+    refinedGrid,
+    spectrum2D,
+    spectrum2DOptions,
+    setSpectrum2DOptions,
+    deskewEnabled,
+    setDeskewEnabled,
+    skewEstimate,
+    deskewed,
+    gridMode,
+    setGridMode,
+    warpedGrid,
+    overlayMode,
+    setOverlayMode,
+    gridOverlay,
+    setGridOverlay,
+    cellBreakdown,
+    inspectedSample,
+    inspectCellAt,
     processing,
+    progress,
     canvasRef,
-    resultCanvasRef,
     handleImageUpload,
     performFFT,
     visualizeResults,
-    reprocessWithOffsetStride
+    reprocessWithOffsetStride,
+    choosePeak,
+    autoRefine,
+    cancelAnalysis,
+    requestSpectrum2D
   } = useImageAnalysis();
 
   const {
@@ -57,32 +119,138 @@ const ImageFFTAnalyzer: React.FC = () => {
     pixelArtDataURL,
     transparentPixelArtDataURL,
     colorHistogram,
+    sampledPixelArtDataURL,
+    sampledColorCount,
     pixelArtCanvasRef,
     transparentPixelArtCanvasRef,
     histogramCanvasRef
-  } = usePixelArtGeneration(imageData, imageWidth, imageHeight, dominantFrequency, pixelSamples, stride, enableTrimming, mode === 'texture');
+  } = usePixelArtGeneration(
+    imageData,
+    imageWidth,
+    imageHeight,
+    pixelSamples,
+    strideX,
+    strideY,
+    enableTrimming,
+    mode === 'texture',
+    paletteOptions,
+    snapOptions
+  );
 
-  // Update stride when FFT completes
+  // Update strides and offsets when FFT completes
   React.useEffect(() => {
-    if (dominantFrequency && dominantFrequency > 0 && imageHeight > 0) {
-      const computedStride = imageHeight / dominantFrequency;
-      setStride(computedStride);
+    if (detectedStrideX && detectedStrideY) {
+      setStrideX(detectedStrideX);
+      setStrideY(detectedStrideY);
+      setOffsetX(detectedOffsetX);
+      setOffsetY(detectedOffsetY);
       setIsFFTComplete(true);
     }
-  }, [dominantFrequency, imageHeight]);
+  }, [detectedStrideX, detectedStrideY, detectedOffsetX, detectedOffsetY]);
+
+  // Show the best grid found so far while auto-refining, then the final one
+  const applyGeometry = (geometry: GridGeometry) => {
+    setStrideX(geometry.strideX);
+    setStrideY(geometry.strideY);
+    setOffsetX(geometry.offsetX);
+    setOffsetY(geometry.offsetY);
+  };
+
+  React.useEffect(() => {
+    if (refinement) {
+      applyGeometry(refinement.best);
+    }
+  }, [refinement]);
+
+  React.useEffect(() => {
+    if (refinedGrid) {
+      applyGeometry(refinedGrid.geometry);
+    }
+  }, [refinedGrid]);
+
+  const handleAutoRefine = () => {
+    if (isFFTComplete && imageData) {
+      autoRefine(offsetX, offsetY, strideX, strideY);
+    }
+  };
+
+  // Stop refining and sample the best grid found so far, which the spinners
+  // already show. Cancelling drops the 2D spectrum, so ask for it again.
+  const handleCancelRefine = () => {
+    cancelAnalysis();
+    reprocessWithOffsetStride(offsetX, offsetY, strideX, strideY);
+    requestSpectrum2D();
+  };
 
   // Handle spinner changes
-  const handleOffsetChange = (newOffset: number) => {
-    setOffset(newOffset);
+  const handleOffsetXChange = (newOffsetX: number) => {
+    setOffsetX(newOffsetX);
     if (isFFTComplete && imageData) {
-      reprocessWithOffsetStride(newOffset, stride);
+      reprocessWithOffsetStride(newOffsetX, offsetY, strideX, strideY);
     }
   };
 
-  const handleStrideChange = (newStride: number) => {
-    setStride(newStride);
+  const handleOffsetYChange = (newOffsetY: number) => {
+    setOffsetY(newOffsetY);
     if (isFFTComplete && imageData) {
-      reprocessWithOffsetStride(offset, newStride);
+      reprocessWithOffsetStride(offsetX, newOffsetY, strideX, strideY);
+    }
+  };
+
+  const handleStrideXChange = (newStrideX: number) => {
+    setStrideX(newStrideX);
+    if (isFFTComplete && imageData) {
+      reprocessWithOffsetStride(offsetX, offsetY, newStrideX, strideY);
+    }
+  };
+
+  const handleStrideYChange = (newStrideY: number) => {
+    setStrideY(newStrideY);
+    if (isFFTComplete && imageData) {
+      reprocessWithOffsetStride(offsetX, offsetY, strideX, newStrideY);
+    }
+  };
+
+  const handleSamplingOptionsChange = (newSamplingOptions: SamplingOptions) => {
+    setSamplingOptions(newSamplingOptions);
+    if (isFFTComplete && imageData) {
+      reprocessWithOffsetStride(offsetX, offsetY, strideX, strideY, newSamplingOptions);
+    }
+  };
+
+  const handleGridModeChange = (newGridMode: GridMode) => {
+    setGridMode(newGridMode);
+    if (isFFTComplete && imageData) {
+      reprocessWithOffsetStride(offsetX, offsetY, strideX, strideY, samplingOptions, newGridMode);
+    }
+  };
+
+  // Re-sample with a new pitch on one axis. 'x' sets the horizontal spacing.
+  // The stride is kept at full precision, since rounding it shifts the last
+  // cells of a wide image by the rounding error times the cell count.
+  const applyAxisGrid = (axis: Axis, stride: number, newOffset: number) => {
+    if (axis === 'x') {
+      setStrideX(stride);
+      setOffsetX(newOffset);
+      reprocessWithOffsetStride(newOffset, offsetY, stride, strideY);
+    } else {
+      setStrideY(stride);
+      setOffsetY(newOffset);
+      reprocessWithOffsetStride(offsetX, newOffset, strideX, stride);
+    }
+  };
+
+  // Re-sample with an alternative pitch picked from the ranked candidates.
+  // 'x' candidates come from rows and set the horizontal spacing.
+  const handleCandidateSelect = (axis: Axis, candidate: GridCandidate) => {
+    applyAxisGrid(axis, candidate.stride, candidate.offset);
+  };
+
+  // Re-sample with a peak clicked on the spectrum chart
+  const handlePeakSelect = (axis: Axis, frequency: number) => {
+    const grid = choosePeak(axis, frequency);
+    if (grid) {
+      applyAxisGrid(axis, grid.stride, grid.offset);
     }
   };
 
@@ -110,7 +278,8 @@ const ImageFFTAnalyzer: React.FC = () => {
         console.log("ImageFFTAnalyzer: Before handleImageUpload", {
           currentImageWidth: imageWidth,
           currentImageHeight: imageHeight,
-          currentDominantFrequency: dominantFrequency,
+          currentDominantFrequencyX: dominantFrequencyX,
+          currentDominantFrequencyY: dominantFrequencyY,
           currentPixelSamplesLength: pixelSamples.length,
           hasCurrentImageData: !!imageData
         });
@@ -127,7 +296,8 @@ const ImageFFTAnalyzer: React.FC = () => {
         console.log("ImageFFTAnalyzer: After performFFT call - Note: state updates are async and may not be reflected yet", {
           imageWidth,
           imageHeight,
-          dominantFrequency,
+          dominantFrequencyX,
+          dominantFrequencyY,
           pixelSamplesLength: pixelSamples.length
         });
       }
@@ -209,10 +379,21 @@ const ImageFFTAnalyzer: React.FC = () => {
             <AnalysisControls 
               imageData={imageData}
               processing={processing}
+              progress={progress}
               performFFT={performFFT}
-              dominantFrequency={dominantFrequency}
-              imageHeight={imageHeight}
-              combinedFFT={combinedFFT}
+              strideX={detectedStrideX}
+              strideY={detectedStrideY}
+              combinedFFTY={combinedFFTY}
+              peakSearchOptions={peakSearchOptions}
+              onPeakSearchOptionsChange={setPeakSearchOptions}
+              lineSamplingOptions={lineSamplingOptions}
+              onLineSamplingOptionsChange={setLineSamplingOptions}
+              edgeSignal={edgeSignal}
+              onEdgeSignalChange={setEdgeSignal}
+              preprocessingOptions={preprocessingOptions}
+              onPreprocessingOptionsChange={setPreprocessingOptions}
+              deskew={deskewEnabled}
+              onDeskewChange={setDeskewEnabled}
             />
           </>
         ) : mode === 'generate' ? (
@@ -251,7 +432,7 @@ const ImageFFTAnalyzer: React.FC = () => {
       {/* Show FFT processing spinner when in generate modes and FFT is running */}
       {(mode === 'generate' || mode === 'generate-batch' || mode === 'orientation' || mode === 'seasons' || mode === 'texture') && processing && (
         <LoadingSpinner 
-          message="Analyzing generated image with FFT..." 
+          message={`Analyzing generated image with FFT...${progress ? ` ${Math.round(progress.fraction * 100)}%` : ''}`}
           size="medium"
           className="my-6"
         />
@@ -260,9 +441,17 @@ const ImageFFTAnalyzer: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <OriginalImageDisplay 
           canvasRef={canvasRef}
-          selectedLines={selectedLines}
-          dominantFrequency={dominantFrequency}
-          imageHeight={imageHeight}
+          selectedColumns={selectedColumns}
+          selectedRows={selectedRows}
+          strideX={detectedStrideX}
+          strideY={detectedStrideY}
+          overlayMode={overlayMode}
+          onOverlayModeChange={setOverlayMode}
+          gridOverlay={gridOverlay}
+          onGridOverlayChange={setGridOverlay}
+          cellBreakdown={cellBreakdown}
+          inspectedSample={inspectedSample}
+          onCellClick={inspectCellAt}
           onCanvasClick={() => {
             if (canvasRef.current) {
               setModalImageSrc(canvasRef.current.toDataURL());
@@ -272,19 +461,58 @@ const ImageFFTAnalyzer: React.FC = () => {
         />
         
         <FFTResultsDisplay 
-          resultCanvasRef={resultCanvasRef}
-          combinedFFT={combinedFFT}
+          seriesX={{
+            combined: combinedFFTX,
+            smoothed: smoothedFFTX,
+            derivativeLength: imageWidth - 1,
+            peakFrequency: dominantFrequencyX,
+            method: detectionMethodX,
+            candidates: candidatesX
+          }}
+          seriesY={{
+            combined: combinedFFTY,
+            smoothed: smoothedFFTY,
+            derivativeLength: imageHeight - 1,
+            peakFrequency: dominantFrequencyY,
+            method: detectionMethodY,
+            candidates: candidatesY
+          }}
+          binsPerFrequency={spectrumResolution}
+          smoothing={(analysisOptions?.peakSearch ?? peakSearchOptions).smoothing}
+          onPeakSelect={handlePeakSelect}
         />
+        
+        <Spectrum2DDisplay
+          spectrum={spectrum2D}
+          options={spectrum2DOptions}
+          onOptionsChange={setSpectrum2DOptions}
+          strideX={detectedStrideX}
+          strideY={detectedStrideY}
+        />
+        
+        <ReconstructionComparisonDisplay comparison={comparison} />
       </div>
       
       {pixelArtDataURL && (
         <>
           <OffsetStrideSpinner
-            offset={offset}
-            stride={stride}
-            onOffsetChange={handleOffsetChange}
-            onStrideChange={handleStrideChange}
-            disabled={processing || !isFFTComplete}
+            offsetX={offsetX}
+            offsetY={offsetY}
+            strideX={strideX}
+            strideY={strideY}
+            onOffsetXChange={handleOffsetXChange}
+            onOffsetYChange={handleOffsetYChange}
+            onStrideXChange={handleStrideXChange}
+            onStrideYChange={handleStrideYChange}
+            samplingOptions={samplingOptions}
+            onSamplingOptionsChange={handleSamplingOptionsChange}
+            gridMode={gridMode}
+            onGridModeChange={handleGridModeChange}
+            onAutoRefine={handleAutoRefine}
+            onCancelRefine={handleCancelRefine}
+            refineProgress={refinement ? refinement.fraction : null}
+            lastRefinement={refinedGrid}
+            disabled={processing || !isFFTComplete || refinement !== null}
           />
           
           <PixelArtDisplay 
@@ -297,6 +525,12 @@ const ImageFFTAnalyzer: React.FC = () => {
             transparentPixelArtCanvasRef={transparentPixelArtCanvasRef}
             enableTrimming={enableTrimming}
             onTrimmingChange={setEnableTrimming}
+            paletteOptions={paletteOptions}
+            onPaletteOptionsChange={setPaletteOptions}
+            snapOptions={snapOptions}
+            onSnapOptionsChange={setSnapOptions}
+            sampledPixelArtDataURL={sampledPixelArtDataURL}
+            sampledColorCount={sampledColorCount}
             onSave={() => {
               // Refresh sidebar when pixel art is saved
               setSidebarRefreshTrigger(prev => prev + 1);
@@ -305,12 +539,31 @@ const ImageFFTAnalyzer: React.FC = () => {
         </>
       )}
       
-      {fftResults.length > 0 && (
+      {fftResults.length > 0 && analysisOptions && detectionMethodX && detectionMethodY && (
         <AnalysisSummary 
           fftResults={fftResults}
           imageWidth={imageWidth}
           imageHeight={imageHeight}
-          dominantFrequency={dominantFrequency}
+          dominantFrequencyX={dominantFrequencyX}
+          dominantFrequencyY={dominantFrequencyY}
+          strideEstimateX={strideEstimateX}
+          strideEstimateY={strideEstimateY}
+          analysisOptions={analysisOptions}
+          candidatesX={candidatesX}
+          candidatesY={candidatesY}
+          selectedStrideX={strideX}
+          selectedStrideY={strideY}
+          onCandidateSelect={handleCandidateSelect}
+          detectionMethodX={detectionMethodX}
+          detectionMethodY={detectionMethodY}
+          pixelSamples={pixelSamples}
+          comparison={comparison}
+          skewEstimate={skewEstimate}
+          deskewed={deskewed}
+          warpedGrid={warpedGrid}
+          blockPeakX={blockPeakX}
+          blockPeakY={blockPeakY}
+          jpegCleanup={analysisOptions.preprocessing.enabled}
         />
       )}
       
@@ -1,142 +1,281 @@
 import React from 'react';
+import { CellAggregation, SamplingOptions } from '../analysis/gridDetection';
+import { GridRefinement } from '../analysis/quality';
+import { GridMode } from '../analysis/warpedGrid';
 
 interface OffsetStrideSpinnerProps {
-  offset: number;
-  stride: number;
-  onOffsetChange: (offset: number) => void;
-  onStrideChange: (stride: number) => void;
+  offsetX: number;
+  offsetY: number;
+  strideX: number;
+  strideY: number;
+  onOffsetXChange: (offset: number) => void;
+  onOffsetYChange: (offset: number) => void;
+  onStrideXChange: (stride: number) => void;
+  onStrideYChange: (stride: number) => void;
+  samplingOptions: SamplingOptions;
+  onSamplingOptionsChange: (options: SamplingOptions) => void;
+  gridMode: GridMode;
+  onGridModeChange: (mode: GridMode) => void;
+  onAutoRefine: () => void;
+  onCancelRefine: () => void;
+  refineProgress: number | null; // Fraction done while auto-refining
+  lastRefinement: GridRefinement | null;
   disabled?: boolean;
 }
 
-const OffsetStrideSpinner: React.FC<OffsetStrideSpinnerProps> = ({ 
-  offset, 
-  stride, 
-  onOffsetChange, 
-  onStrideChange, 
-  disabled = false 
+// Strides are kept at full precision; the inputs show two decimals
+const displayStride = (stride: number) => Math.round(stride * 100) / 100;
+
+const OffsetStrideSpinner: React.FC<OffsetStrideSpinnerProps> = ({
+  offsetX,
+  offsetY,
+  strideX,
+  strideY,
+  onOffsetXChange,
+  onOffsetYChange,
+  onStrideXChange,
+  onStrideYChange,
+  samplingOptions,
+  onSamplingOptionsChange,
+  gridMode,
+  onGridModeChange,
+  onAutoRefine,
+  onCancelRefine,
+  refineProgress,
+  lastRefinement,
+  disabled = false
 }) => {
-  const handleOffsetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleOffsetChange = (onOffsetChange: (offset: number) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(e.target.value);
-    if (!isNaN(value) && value >= 0 && value <= 1) {
+    if (!isNaN(value) && value >= -0.5 && value <= 0.5) {
       onOffsetChange(value);
     }
   };
 
-  const handleStrideChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleStrideChange = (onStrideChange: (stride: number) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(e.target.value);
     if (!isNaN(value) && value >= 0.1) {
       onStrideChange(value);
     }
   };
 
-  const incrementOffset = () => {
-    const newOffset = Math.min(1.0, Math.round((offset + 0.05) * 100) / 100);
+  const incrementOffset = (offset: number, onOffsetChange: (offset: number) => void) => {
+    const newOffset = Math.min(0.5, Math.round((offset + 0.05) * 100) / 100);
     onOffsetChange(newOffset);
   };
 
-  const decrementOffset = () => {
-    const newOffset = Math.max(0.0, Math.round((offset - 0.05) * 100) / 100);
+  const decrementOffset = (offset: number, onOffsetChange: (offset: number) => void) => {
+    const newOffset = Math.max(-0.5, Math.round((offset - 0.05) * 100) / 100);
     onOffsetChange(newOffset);
   };
 
-  const incrementStride = () => {
+  const incrementStride = (stride: number, onStrideChange: (stride: number) => void) => {
     const newStride = Math.round((stride + 0.1) * 10) / 10;
     onStrideChange(newStride);
   };
 
-  const decrementStride = () => {
+  const decrementStride = (stride: number, onStrideChange: (stride: number) => void) => {
     const newStride = Math.max(0.1, Math.round((stride - 0.1) * 10) / 10);
     onStrideChange(newStride);
   };
 
+  const renderOffsetControl = (
+    label: string,
+    offset: number,
+    onOffsetChange: (offset: number) => void
+  ) => (
+    <div>
+      <label className="block mb-2 font-medium">
+        {label}:
+      </label>
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={() => decrementOffset(offset, onOffsetChange)}
+          disabled={disabled || offset <= -0.5}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+        >
+          −
+        </button>
+        <input
+          type="number"
+          value={offset}
+          onChange={handleOffsetChange(onOffsetChange)}
+          min="-0.5"
+          max="0.5"
+          step="0.05"
+          disabled={disabled}
+          className="w-20 p-2 border border-gray-300 rounded text-center disabled:bg-gray-100"
+        />
+        <button
+          type="button"
+          onClick={() => incrementOffset(offset, onOffsetChange)}
+          disabled={disabled || offset >= 0.5}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+        >
+          +
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mt-1">
+        Grid start position in cells (-0.5 - 0.5)
+      </p>
+    </div>
+  );
+
+  const renderStrideControl = (
+    label: string,
+    stride: number,
+    onStrideChange: (stride: number) => void
+  ) => (
+    <div>
+      <label className="block mb-2 font-medium">
+        {label}:
+      </label>
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={() => decrementStride(stride, onStrideChange)}
+          disabled={disabled || stride <= 0.1}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+        >
+          −
+        </button>
+        <input
+          type="number"
+          value={displayStride(stride)}
+          onChange={handleStrideChange(onStrideChange)}
+          min="0.1"
+          step="0.1"
+          disabled={disabled}
+          className="w-20 p-2 border border-gray-300 rounded text-center disabled:bg-gray-100"
+        />
+        <button
+          type="button"
+          onClick={() => incrementStride(stride, onStrideChange)}
+          disabled={disabled}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+        >
+          +
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mt-1">
+        Distance between sampled pixels
+      </p>
+    </div>
+  );
+
   return (
     <div className="mb-4">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {/* Offset Control */}
-        <div>
-          <label className="block mb-2 font-medium">
-            Grid Offset:
-          </label>
-          <div className="flex items-center space-x-2">
-            <button
-              type="button"
-              onClick={decrementOffset}
-              disabled={disabled || offset <= 0}
-              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
-            >
-              −
-            </button>
-            <input
-              type="number"
-              value={offset}
-              onChange={handleOffsetChange}
-              min="0"
-              max="1"
-              step="0.05"
-              disabled={disabled}
-              className="w-20 p-2 border border-gray-300 rounded text-center disabled:bg-gray-100"
-            />
-            <button
-              type="button"
-              onClick={incrementOffset}
-              disabled={disabled || offset >= 1}
-              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
-            >
-              +
-            </button>
-          </div>
-          <p className="text-sm text-gray-600 mt-1">
-            Grid start position (0.0 - 1.0)
-          </p>
-        </div>
-
-        {/* Stride Control */}
-        <div>
-          <label className="block mb-2 font-medium">
-            Pixel Spacing:
-          </label>
-          <div className="flex items-center space-x-2">
-            <button
-              type="button"
-              onClick={decrementStride}
-              disabled={disabled || stride <= 0.1}
-              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
-            >
-              −
-            </button>
-            <input
-              type="number"
-              value={stride}
-              onChange={handleStrideChange}
-              min="0.1"
-              step="0.1"
-              disabled={disabled}
-              className="w-20 p-2 border border-gray-300 rounded text-center disabled:bg-gray-100"
-            />
+        {/* Offset Controls */}
+        {renderOffsetControl('Grid Offset X', offsetX, onOffsetXChange)}
+        {renderOffsetControl('Grid Offset Y', offsetY, onOffsetYChange)}
+
+        {/* Stride Controls */}
+        {renderStrideControl('Pixel Spacing X', strideX, onStrideXChange)}
+        {renderStrideControl('Pixel Spacing Y', strideY, onStrideYChange)}
+      </div>
+
+      <div className="flex flex-wrap gap-4 mt-4 text-sm">
+        <label className="flex items-center">
+          <span className="mr-2 font-medium">Grid:</span>
+          <select
+            value={gridMode}
+            onChange={(e) => onGridModeChange(e.target.value as GridMode)}
+            disabled={disabled}
+            className="p-1 border border-gray-300 rounded disabled:bg-gray-100"
+          >
+            <option value="uniform">Uniform</option>
+            <option value="warped">Non-uniform (follow edges)</option>
+          </select>
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2 font-medium">Cell color:</span>
+          <select
+            value={samplingOptions.aggregation}
+            onChange={(e) => onSamplingOptionsChange({
+              ...samplingOptions,
+              aggregation: e.target.value as CellAggregation
+            })}
+            disabled={disabled}
+            className="p-1 border border-gray-300 rounded disabled:bg-gray-100"
+          >
+            <option value="center">Center pixel</option>
+            <option value="mode">Most frequent color</option>
+            <option value="median">Median per channel</option>
+            <option value="trimmed-mean">Trimmed mean</option>
+          </select>
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2 font-medium">Edge margin:</span>
+          <input
+            type="number"
+            value={samplingOptions.margin}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value) && value >= 0 && value <= 0.45) {
+                onSamplingOptionsChange({ ...samplingOptions, margin: value });
+              }
+            }}
+            min="0"
+            max="0.45"
+            step="0.05"
+            disabled={disabled}
+            className="w-20 p-1 border border-gray-300 rounded text-center disabled:bg-gray-100"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mt-4 text-sm">
+        {refineProgress === null ? (
+          <button
+            type="button"
+            onClick={onAutoRefine}
+            disabled={disabled}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Auto-refine
+          </button>
+        ) : (
+          <>
+            <div className="w-48 h-2 bg-gray-200 rounded overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${Math.round(refineProgress * 100)}%` }}
+              />
+            </div>
+            <span>Refining... {Math.round(refineProgress * 100)}%</span>
             <button
               type="button"
-              onClick={incrementStride}
-              disabled={disabled}
-              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed"
+              onClick={onCancelRefine}
+              className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
             >
-              +
+              Stop
             </button>
-          </div>
-          <p className="text-sm text-gray-600 mt-1">
-            Distance between sampled pixels
-          </p>
-        </div>
+          </>
+        )}
+        {refineProgress === null && lastRefinement && (
+          <span className="text-gray-600">
+            Last refinement: MSE {lastRefinement.initialMse.toFixed(1)} → {lastRefinement.mse.toFixed(1)} ({lastRefinement.evaluations} grids tried)
+          </span>
+        )}
       </div>
-      
+
       <div className="mt-2 p-2 bg-gray-50 rounded text-sm text-gray-700">
         <strong>Grid Correction:</strong> Adjust these values if the AI model gets the pixel grid alignment slightly wrong.
         <br />
-        <strong>Offset:</strong> Shifts where sampling starts within each grid cell.
+        <strong>Offset:</strong> Shifts where sampling starts within each grid cell. Pre-filled from the phase of the detected frequency.
+        <br />
+        <strong>Stride:</strong> Distance in pixels between sampling points, horizontally (X) and vertically (Y).
+        <br />
+        <strong>Auto-refine:</strong> Searches stride and offset on each axis around the current values for the grid whose pixel art, scaled back up, best matches the original. Stopping keeps the best grid found so far.
+        <br />
+        <strong>Grid:</strong> Non-uniform mode starts from this stride and offset, then moves every cell boundary onto the nearest edge, row by row and column by column, so cells that wobble or drift in size (common in AI-generated pixel art) are still sampled whole.
         <br />
-        <strong>Stride:</strong> Distance in pixels between sampling points.
+        <strong>Cell color:</strong> How each cell's pixels become one output color. All modes except the center pixel ignore the given fraction of the cell along each edge, where antialiasing and compression smear neighbouring colors.
       </div>
     </div>
   );
 };
 
-export default OffsetStrideSpinner;
\ No newline at end of file
+export default OffsetStrideSpinner;
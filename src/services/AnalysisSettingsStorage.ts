@@ -0,0 +1,80 @@
+import {
+  DEFAULT_PEAK_SEARCH_OPTIONS,
+  PEAK_SEARCH_LIMITS,
+  PeakInterpolation,
+  PeakSearchOptions,
+  PitchDetectionMethod,
+  SmoothingKernel,
+  SmoothingOptions
+} from '../analysis/gridDetection';
+
+const STORAGE_KEY = 'geft_analysis_settings';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+// Keep a saved field when it passes the check, otherwise use the default
+const checked = <T,>(value: unknown, isValid: (value: unknown) => boolean, fallback: T): T =>
+  isValid(value) ? (value as T) : fallback;
+
+// Saved settings are checked field by field against the same limits as the
+// controls, so a stale or hand-edited entry can't reach the analysis. Each
+// field that fails, or was added since the settings were saved, takes its
+// default value.
+const sanitizePeakSearchOptions = (saved: Partial<Record<keyof PeakSearchOptions, unknown>>): PeakSearchOptions => {
+  const defaults = DEFAULT_PEAK_SEARCH_OPTIONS;
+  const savedSmoothing = (typeof saved.smoothing === 'object' && saved.smoothing !== null
+    ? saved.smoothing
+    : {}) as Partial<Record<keyof SmoothingOptions, unknown>>;
+
+  const smoothing: SmoothingOptions = {
+    kernel: checked<SmoothingKernel>(savedSmoothing.kernel,
+      value => ['gaussian', 'median', 'none'].includes(value as string), defaults.smoothing.kernel),
+    sigma: checked(savedSmoothing.sigma,
+      value => isNumber(value) && value > PEAK_SEARCH_LIMITS.minSigma, defaults.smoothing.sigma),
+    size: checked(savedSmoothing.size,
+      value => Number.isInteger(value) && (value as number) >= PEAK_SEARCH_LIMITS.minKernelSize, defaults.smoothing.size)
+  };
+
+  const minPitch = checked(saved.minPitch, value => isNumber(value) && value >= PEAK_SEARCH_LIMITS.minPitch, defaults.minPitch);
+  const maxPitch = checked<number | null>(saved.maxPitch,
+    value => value === null || (isNumber(value) && value > minPitch), defaults.maxPitch);
+
+  return {
+    method: checked<PitchDetectionMethod>(saved.method,
+      value => ['peak', 'harmonic-product', 'autocorrelation', 'auto'].includes(value as string), defaults.method),
+    interpolation: checked<PeakInterpolation>(saved.interpolation,
+      value => ['none', 'parabolic', 'gaussian'].includes(value as string), defaults.interpolation),
+    zeroPadding: checked(saved.zeroPadding,
+      value => PEAK_SEARCH_LIMITS.zeroPaddings.includes(value as number), defaults.zeroPadding),
+    smoothing,
+    minPitch,
+    maxPitch,
+    lowFrequencyCutoff: checked(saved.lowFrequencyCutoff,
+      value => Number.isInteger(value) && (value as number) >= PEAK_SEARCH_LIMITS.minLowFrequencyCutoff,
+      defaults.lowFrequencyCutoff)
+  };
+};
+
+export class AnalysisSettingsStorage {
+  static loadPeakSearchOptions(): PeakSearchOptions {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return DEFAULT_PEAK_SEARCH_OPTIONS;
+
+      const saved = JSON.parse(stored);
+      if (typeof saved !== 'object' || saved === null) return DEFAULT_PEAK_SEARCH_OPTIONS;
+      return sanitizePeakSearchOptions(saved);
+    } catch (error) {
+      console.error('Failed to load analysis settings:', error);
+      return DEFAULT_PEAK_SEARCH_OPTIONS;
+    }
+  }
+
+  static savePeakSearchOptions(options: PeakSearchOptions): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    } catch (error) {
+      console.error('Failed to save analysis settings:', error);
+    }
+  }
+}
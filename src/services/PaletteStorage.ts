@@ -0,0 +1,33 @@
+import { TargetPalette } from '../analysis/targetPalette';
+
+const STORAGE_KEY = 'geft_custom_palettes';
+
+export class PaletteStorage {
+  static getCustomPalettes(): TargetPalette[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load custom palettes:', error);
+      return [];
+    }
+  }
+
+  // A palette with the same name replaces the one saved before it
+  static saveCustomPalette(palette: TargetPalette): TargetPalette[] {
+    const updated = [palette, ...this.getCustomPalettes().filter(saved => saved.id !== palette.id)];
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Failed to save custom palette:', error);
+      throw error;
+    }
+    return updated;
+  }
+
+  static deleteCustomPalette(id: string): TargetPalette[] {
+    const filtered = this.getCustomPalettes().filter(palette => palette.id !== id);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    return filtered;
+  }
+}
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Builds the headless analysis core (src/analysis/node.ts) and the geft CLI
+// (src/cli/geft.ts) for Node
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: true,
+    outDir: 'build/node',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        node: 'src/analysis/node.ts',
+        geft: 'src/cli/geft.ts',
+      },
+      output: {
+        banner: (chunk) => (chunk.name === 'geft' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+})